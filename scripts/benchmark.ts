@@ -0,0 +1,115 @@
+import { Schema, Transformer } from '../src/index.js';
+import { Transformer as Original } from './original.js';
+
+const RECORDS = 20_000;
+const ROUNDS = 10;
+
+/** Transformations may be this much slower than the original implementation (2.0.4), see scripts/original.ts. <br />
+ * Not compiled classes are checked on every call, and both paths check declared features (views, hooks, constraints),
+ * which the original implementation doesn't have.
+ * */
+const TOLERANCE = 1.2;
+
+/** Compiled fromJSON may be this much slower than the original implementation, to allow for noise of measurements */
+const NOISE = 1.05;
+
+/** Creates new classes on every call, so compiled and not compiled classes can be compared */
+function classes() {
+  class Organization {
+    static types: Schema<Organization> = { phone: { type: String } };
+
+    name = '';
+
+    phone: string | null = null;
+  }
+
+  class Employee {
+    static types: Schema<Employee> = { experience: { of: Organization } };
+
+    id = 0;
+
+    fullName = '';
+
+    active = false;
+
+    born = new Date();
+
+    tags = new Set<string>();
+
+    experience: Organization[] = [];
+  }
+
+  return Employee;
+}
+
+const records = Array.from({ length: RECORDS }, (_, id) => ({
+  id,
+  fullName: `Employee ${id}`,
+  active: id % 2 === 0,
+  born: '1990-01-01T00:00:00.000Z',
+  tags: ['a', 'b'],
+  experience: [
+    { name: 'Google', phone: null },
+    { name: 'IBM', phone: '+1 234 56 78' },
+  ],
+}));
+
+/** Runs implementations in turns, so that they are equally affected by load of the machine */
+function measure(implementations: Record<string, () => void>) {
+  const entries = Object.entries(implementations);
+  const ms = entries.map(() => Infinity);
+  entries.forEach(([, fn]) => fn()); // warm up
+
+  // the fastest round is least affected by garbage collection
+  for (let round = 0; round < ROUNDS; round++) {
+    entries.forEach(([, fn], index) => {
+      const start = performance.now();
+      fn();
+      ms[index] = Math.min(ms[index], performance.now() - start);
+    });
+  }
+
+  entries.forEach(([label], index) => console.info(`${label.padEnd(20)}: ${ms[index].toFixed(1)} ms per ${RECORDS} records`));
+
+  return ms;
+}
+
+const Initial = classes();
+const Reflective = classes();
+const Compiled = classes();
+const compiled = Transformer.compile(Compiled);
+
+const [originalFrom, reflectiveFrom, compiledFrom] = measure({
+  'fromJSON original': () => records.forEach((record) => Original.fromJSON(record, Initial)),
+  'fromJSON reflective': () => records.forEach((record) => Transformer.fromJSON(record, Reflective)),
+  'fromJSON compiled': () => records.forEach((record) => compiled.fromJSON(record)),
+});
+
+const originalInstances = records.map((record) => Original.fromJSON(record, Initial));
+const reflectiveInstances = records.map((record) => Transformer.fromJSON(record, Reflective));
+const compiledInstances = records.map((record) => compiled.fromJSON(record));
+
+const [originalTo, reflectiveTo, compiledTo] = measure({
+  'toJSON original': () => originalInstances.forEach((instance) => Original.toJSON(instance)),
+  'toJSON reflective': () => reflectiveInstances.forEach((instance) => Transformer.toJSON(instance)),
+  'toJSON compiled': () => compiledInstances.forEach((instance) => compiled.toJSON(instance)),
+});
+
+console.info(`fromJSON reflective vs original: x${(originalFrom / reflectiveFrom).toFixed(2)}`);
+console.info(`fromJSON compiled vs original: x${(originalFrom / compiledFrom).toFixed(2)}`);
+console.info(`toJSON reflective vs original: x${(originalTo / reflectiveTo).toFixed(2)}`);
+console.info(`toJSON compiled vs original: x${(originalTo / compiledTo).toFixed(2)}`);
+
+const regressions = [
+  ['fromJSON reflective', reflectiveFrom, originalFrom * TOLERANCE],
+  ['fromJSON compiled', compiledFrom, originalFrom * NOISE],
+  ['toJSON reflective', reflectiveTo, originalTo * TOLERANCE],
+  ['toJSON compiled', compiledTo, originalTo * TOLERANCE],
+] as const;
+
+regressions.forEach(([label, ms, limit]) => {
+  if (ms > limit) {
+    console.error(`${label} is slower than the original implementation: ${ms.toFixed(1)} ms > ${limit.toFixed(1)} ms`);
+    process.exitCode = 1;
+  }
+});
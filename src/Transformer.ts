@@ -1,252 +1,2272 @@
-export class TransformError extends Error {}
+import { NamingStrategy, toJSONName } from './naming.js'
+import { decorated } from './decorators.js'
+import { JSONSource, StreamFormat, iterate, records } from './stream.js'
+import { BinaryEncoding, binaries, binaryType, copy, decode, encode, equalBytes, isBinary } from './binary.js'
+import { DateOptions, fromDate, toDate } from './date.js'
+import { ConstraintRule, Constraints, check, isConstrained } from './constraints.js'
+import { PatchError, PatchOperation, apply, diff } from './patch.js'
+import { decode as fromCBOR, encode as toCBOR } from './cbor.js'
+import { coerce } from './coerce.js'
 
-interface TypeDescriptor {
-  /** Any class constructor including built in (String, Number, Boolean, Date e.t.c) */
-  type?: { new (): any }
+/** Describes why transformation failed */
+export type TransformErrorCode =
+  /** json passed to fromJSON is not an object */
+  | 'INVALID_JSON'
+  /** target class or type declared in TypeDescriptor can't be constructed */
+  | 'INVALID_CONSTRUCTOR'
+  /** default value is null or undefined, and type is not declared in TypeDescriptor */
+  | 'UNDECLARED_TYPE'
+  /** property is required by target class, but missed in json */
+  | 'MISSING_PROPERTY'
+  /** type of value in json doesn't match type expected by target class */
+  | 'TYPE_MISMATCH'
+  /** value in json can't be transformed to Date */
+  | 'INVALID_DATE'
+  /** object references itself through its properties, see ToJSONOptions.cycles */
+  | 'CIRCULAR_REFERENCE'
+  /** `$ref` in json points to object, which `$id` is unknown */
+  | 'UNRESOLVED_REFERENCE'
+  /** BigInt can't be written as json number without loss of precision, see ToJSONOptions.bigint */
+  | 'UNSAFE_INTEGER'
+  /** key of Map can't be written as key of json object, see TypeDescriptor.entries */
+  | 'INVALID_KEY'
+  /** value of discriminator property in json doesn't match any class declared in Union */
+  | 'UNKNOWN_DISCRIMINATOR'
+  /** custom deserialize function declared in TypeDescriptor has thrown, see `cause` */
+  | 'CONVERTER_FAILED'
+  /** json has properties, which are not declared in class, see ExcessPolicy */
+  | 'EXCESS_PROPERTY'
+  /** lifecycle hook of class has thrown, see `cause` and LifecycleHooks */
+  | 'HOOK_FAILED'
+  /** value violates constraint declared in TypeDescriptor, see `rule` */
+  | 'CONSTRAINT_VIOLATION'
+  /** some elements of collection can't be transformed, see `cause` */
+  | 'INVALID_ELEMENTS'
+  /** operation of JSON Patch can't be applied, or its test has failed, see Transformer.applyPatch */
+  | 'INVALID_PATCH'
+  /** bytes passed to fromBinary are not valid CBOR */
+  | 'INVALID_BINARY'
+  /** json has several issues, see TransformAggregateError.issues */
+  | 'AGGREGATE'
+  /** error is created without details */
+  | 'UNKNOWN'
+
+/** Machine-readable details of transformation failure */
+export interface TransformErrorDetails {
+  code: TransformErrorCode
+
+  /** Name of class being transformed */
+  target: string
+
+  /** JSON pointer to the value in json, i.e. `/experience/3/phone` */
+  path: string
+
+  /** Type expected by target class, inferred from default value or declared in TypeDescriptor */
+  expected?: string
+
+  /** Type of value found in json */
+  received?: string
+
+  /** Violated constraint, exists only for CONSTRAINT_VIOLATION */
+  rule?: ConstraintRule
+
+  /** Names of unknown properties in json, exists only for EXCESS_PROPERTY */
+  keys?: string[]
+}
+
+export class TransformError extends Error implements TransformErrorDetails {
+  readonly code: TransformErrorCode
+  readonly target: string
+  readonly path: string
+  readonly expected?: string
+  readonly received?: string
+  readonly rule?: ConstraintRule
+  readonly keys?: string[]
+
+  constructor(message: string, { code = 'UNKNOWN', target = '', path = '', expected, received, rule, keys, ...options }: Partial<TransformErrorDetails> & ErrorOptions = {}) {
+    super(message, options)
+    this.name = new.target.name
+    this.code = code
+    this.target = target
+    this.path = path
+    this.expected = expected
+    this.received = received
+    this.rule = rule
+    this.keys = keys
+  }
+}
+
+/** Single problem found in json during transformation */
+export interface TransformIssue extends TransformErrorDetails {
+  expected: string
+  received: string
+  message: string
+}
+
+/** Thrown by fromJSON in `collect` mode, when json has at least one issue */
+export class TransformAggregateError extends TransformError {
+  constructor(readonly issues: TransformIssue[], target: string) {
+    const list = issues.map(issue => `  ${issue.path}: ${issue.message}`).join('\n')
+    super(`${issues.length} issue(s) found in json for ${target}:\n${list}`, { code: 'AGGREGATE', target, path: '' })
+  }
+}
+
+/** What fromJSON does with properties of json, which are not declared in class: <br />
+ * - `ignore` them (default); <br />
+ * - `reject` json with TransformError, which code is EXCESS_PROPERTY; <br />
+ * - `capture` them into property, which descriptor declares `capture: true`. toJSON writes them back. <br />
+ * Classes can declare their own policy in static property `excess`, which takes precedence over options of fromJSON.
+ * */
+export type ExcessPolicy = 'ignore' | 'reject' | 'capture'
+
+/** What fromJSON does, when type of value in json doesn't match type of property: <br />
+ * - `true` - reports TransformError (default); <br />
+ * - `false` - leaves initial value of property, and skips collection elements which can't be transformed; <br />
+ * - `coerce` - converts value, if it can be converted safely, and reports TransformError otherwise.
+ * Numeric strings are converted to Number, `"true"` and `"false"` to Boolean, numbers to String, epoch milliseconds to Date,
+ * and single value to Array or Set with one element.
+ * */
+export type StrictMode = boolean | 'coerce'
+
+/** Selects properties, which are read by fromJSON and written by toJSON */
+export interface ViewOptions {
+  /** Properties, which declare TypeDescriptor.groups, are included only if one of their groups is selected */
+  groups?: string[]
+
+  /** Names of class properties, which are excluded */
+  exclude?: string[]
+
+  /** Names of class properties, which are included even if they are excluded by TypeDescriptor or by groups */
+  include?: string[]
+}
+
+/** Options for fromJSON method */
+export interface FromJSONOptions extends ViewOptions {
+  /** Same as mode passed to the fromJSON method as third argument. Is "true" by default */
+  strict?: StrictMode
+
+  /** Walk the whole json and throw one TransformAggregateError with all issues,
+   * instead of throwing on the first one. <br />
+   * Is "false" by default.
+   * */
+  collect?: boolean
+
+  /** What to do with properties of json, which are not declared in class. <br />
+   * Is `capture` for classes with catch-all property, and `ignore` for others by default.
+   * */
+  excess?: ExcessPolicy
+
+  /** Resolve `$id`/`$ref` markers written by toJSON with `{ cycles: 'reference' }` into shared objects. <br />
+   * Is "false" by default.
+   * */
+  references?: boolean
+
+  /** Encoding of strings with binary data (ArrayBuffer, DataView and typed arrays). <br />
+   * Arrays of numbers are accepted with any encoding. Is `base64` by default, which accepts base64url too.
+   * */
+  binary?: BinaryEncoding
+
+  /** Deep-freeze the result: instance, nested objects and collections with their elements. <br />
+   * Methods, which change Map, Set and Date, throw TypeError in frozen values.
+   * Binary data can't be frozen, so TypeError is thrown if the result contains it. Is "false" by default.
+   * */
+  freeze?: boolean
+}
+
+/** Options for merge method */
+export interface MergeOptions extends FromJSONOptions {
+  /** What to do with Array, Set and Map, which exist in json: <br />
+   * - `replace` collection with elements from json (default); <br />
+   * - `append` elements from json to existing collection.
+   * */
+  collections?: 'replace' | 'append'
+}
+
+/** Options for fromJSONStream method */
+export interface FromJSONStreamOptions extends FromJSONOptions {
+  /** Is detected by the first character in stream by default */
+  format?: StreamFormat
+}
+
+/** Options for toJSON method */
+export interface ToJSONOptions extends ViewOptions {
+  /** What to do, when object is met again while serializing its own properties: <br />
+   * - `throw` TransformError with code CIRCULAR_REFERENCE (default); <br />
+   * - `drop` the repeated reference; <br />
+   * - `reference` - write `{ "$ref": id }` instead of every repeated object, and `"$id": id` into the first one.
+   * */
+  cycles?: 'throw' | 'drop' | 'reference'
+
+  /** How to write BigInt values: as decimal `string` (default) or as `number`. <br />
+   * Throws TransformError with code UNSAFE_INTEGER, if number can't be written without loss of precision.
+   * */
+  bigint?: 'string' | 'number'
+
+  /** How to write binary data (ArrayBuffer, DataView and typed arrays). Is `base64` by default. */
+  binary?: BinaryEncoding
+
+  /** Write values of getters declared in class and its parents. Is "false" by default. */
+  getters?: boolean
+}
+
+/** Passed to custom converters declared in TypeDescriptor */
+export interface ConverterContext<T = any> {
+  /** Name of class property */
+  property: string
+
+  /** Instance, which owns the property. <br />
+   * During fromJSON, properties declared below the current one are not transformed yet.
+   * */
+  instance: T
+}
+
+/** Transforms values of third-party type (i.e. Decimal, URL, RegExp) from json and to json, see Transformer.register */
+export interface TypeConverter<V = any> {
+  /** Creates value from json, isn't called when value in json is null or undefined. Errors are reported as CONVERTER_FAILED */
+  deserialize(value: any): V
+
+  serialize(value: V): unknown
+
+  /** JSON Schema of written value, used by toJSONSchema. Any value is accepted by default */
+  schema?: JSONSchema
+}
+
+/** Options of Transformer instance */
+export interface TransformerOptions {
+  /** Default strict mode of fromJSON, merge and toJSONSchema. Is "true" by default */
+  strict?: StrictMode
+
+  /** Default forms of dates, descriptors take precedence */
+  date?: DateOptions
+
+  /** Describes how names of class properties are written in json. Names are used "as is" by default */
+  naming?: NamingStrategy
+}
+
+/** Static members of classes, which instances can't be created by constructor without arguments and then filled,
+ * i.e. immutable value objects. fromJSON transforms property values first, and then creates instance with: <br />
+ * - `factory(values)`, which receives transformed values by names of class properties; <br />
+ * - or constructor, which receives values of `parameters` as arguments, i.e. `['amount', 'currency']`. <br />
+ * Properties are found in instance created without arguments, or in `types`, if the constructor throws.
+ * */
+export interface ClassFactory<T = any> {
+  factory?(values: Record<string, any>): T
+  parameters?: string[]
+}
+
+/** Optional methods of target classes, called by fromJSON and toJSON for every instance,
+ * including nested objects and collection elements. <br />
+ * Class can also declare static method `beforeHydrate(json)`, which is called by fromJSON before the instance is created,
+ * and returns json to be transformed instead, i.e. to upgrade legacy values.
+ * */
+export interface LifecycleHooks {
+  /** Called by fromJSON, when all properties are transformed */
+  afterHydrate?(): void
+
+  /** Called by toJSON, before properties are written */
+  beforeSerialize?(): void
+
+  /** Called by toJSON with written properties, can return other object to be written instead */
+  afterSerialize?(json: Record<string, unknown>): Object | void
+}
+
+/** Describes polymorphic value, which class is selected by value of discriminator property in json. <br />
+ * I.e. `{ discriminator: 'kind', mapping: { click: ClickEvent, scroll: ScrollEvent } }`
+ * */
+export interface Union<T = any> {
+  /** Name of property in json, which value selects the class */
+  discriminator: string
+
+  /** Classes by values of discriminator property */
+  mapping: Record<string, { new (...args: any[]): T }>
+}
+
+/** Any class constructor including built in (String, Number, Boolean, Date, ArrayBuffer e.t.c), BigInt or DataView */
+export type TypeConstructor = { new (...args: any[]): any } | BigIntConstructor | DataViewConstructor
+
+export interface TypeDescriptor<V = any, T = any> extends Constraints<V, T> {
+  /** Any class constructor including built in (String, Number, Boolean, Date, BigInt e.t.c), or Union of classes */
+  type?: TypeConstructor | Union
 
   /** Describes type of elements in collection. <br />
    * If Schema[property] is Map, Set or Array, than property "of" describes the type of elements in collection. <br />
    * I.e. Array<Schema[property]['off']> <br />
+   * Elements, which are collections too, are described by nested descriptor, i.e. `{ of: { type: Set, of: Tag } }`. <br />
+   * Nested descriptor without type describes Array, if its property "of" is declared. <br />
    * If not specified, the values from json will be used "as is".
    *   */
-  of?: { new (): unknown }
+  of?: TypeConstructor | Union | TypeDescriptor
+
+  /** Describes type of keys, if Schema[property] is Map. <br />
+   * Keys of json object are converted to Number, Boolean, BigInt, Date e.t.c. <br />
+   * If not specified, the keys from json will be used "as is".
+   * */
+  keys?: TypeConstructor | Union | TypeDescriptor
+
+  /** Map is written by toJSON as array of `[key, value]` entries instead of object, i.e. for keys which can't be written as strings. <br />
+   * fromJSON accepts both forms.
+   * */
+  entries?: boolean
+
+  /** Will `throw` if type of value in json doesn't match schema. <br/>
+   * Otherwise, the value in json will be used "as is". <br />
+   * Is considering "true" by default. <br />
+   * Values are converted in `coerce` mode, see StrictMode. <br />
+   * Takes precedence over the parameter "strict", passed to the fromJSON method as third argument.
+   * */
+  strict?: StrictMode
+
+  /** Property receives plain object with properties of json, which are not declared in class, see ExcessPolicy */
+  capture?: boolean
+
+  /** Strategy for collection in Transformer.merge, takes precedence over option `collections` */
+  merge?: MergeOptions['collections']
+
+  /** Property is read and written only if one of the groups is selected in options of fromJSON and toJSON, i.e. `['admin']` */
+  groups?: string[]
+
+  /** Property is not read and written, unless it is included in options of fromJSON and toJSON */
+  exclude?: boolean
+
+  /** Name of property in json, if it differs from name of property in class. <br />
+   * Takes precedence over Transformer.naming.
+   * */
+  key?: string
+
+  /** Encoding of binary value or binary collection elements, takes precedence over the `binary` option of fromJSON and toJSON */
+  binary?: BinaryEncoding
+
+  /** Accepted and written forms of Date value or Date collection elements */
+  date?: DateOptions
+
+  /** Custom transformation of value from json, used by fromJSON instead of built in transformations. <br />
+   * Isn't called, when value in json is null or undefined.
+   * */
+  deserialize?: (value: any, context: ConverterContext<T>) => V
+
+  /** Custom transformation of value to json, used by toJSON instead of built in transformations. */
+  serialize?: (value: V, context: ConverterContext<T>) => unknown
+}
+
+/** Selects transformation of collection elements or Map keys in fromJSON */
+type ElementKind = 'any' | 'converter' | 'bigint' | 'binary' | 'date' | 'primitive' | 'union' | 'class' | 'collection'
+
+/** Result of analysis of collection elements or Map keys */
+interface ElementPlan {
+  kind: ElementKind
+
+  /** Declared type, base class of binary data for `binary` kind, or class of collection for `collection` kind */
+  Type?: TypeConstructor | Union
+
+  /** Registered converter, exists only for `converter` kind */
+  converter?: TypeConverter
+
+  /** Descriptor, which declares the elements, selects forms of binary data and dates */
+  descriptor: TypeDescriptor
+
+  /** Plan of nested collection, exists only for `collection` kind */
+  collection?: CollectionPlan
+
+  /** Nested descriptor of elements declares constraints, which are checked for every element */
+  constrained?: boolean
+}
+
+/** Result of analysis of collection descriptor */
+interface CollectionPlan {
+  /** Declared by TypeDescriptor.of */
+  elements: ElementPlan
+
+  /** Declared by TypeDescriptor.keys, exists only for Map with typed keys */
+  keys?: ElementPlan
+}
+
+/** Params for transforming elements of one collection, created once per collection */
+interface Elements {
+  plan: CollectionPlan
+  throwable: boolean
+
+  /** Context of the collection */
+  context: Context
+
+  /** Context of currently transformed element, its key is changed for every element */
+  element: Context
+
+  /** Name of class, which owns the collection */
+  target: string
+
+  /** Property, which holds the collection, is passed to custom `validate` of elements */
+  owner: ConverterContext
+}
+
+/** Params for failure reported during transformation */
+interface Failure extends Omit<TransformIssue, 'path' | 'received'> {
+  /** Property name or collection element key in currently transformed object, the object itself if omitted */
+  key?: string | number
+  /** Value found in json */
+  value: unknown
+  cause?: unknown
+}
+
+/** State shared between nested calls during one transformation */
+interface Context {
+  /** Default strict mode for properties without descriptor */
+  strict: StrictMode
+
+  /** JSON pointer to json passed to the call, i.e. index of record in stream. Nested contexts compute their pointers from parents, see #path */
+  base: string
+
+  /** Context of object or collection, which owns currently transformed value, exists only in nested contexts */
+  parent?: Context
+
+  /** Property name or element key in parent, exists only in nested contexts */
+  key?: string | number
+
+  /** Default encoding of binary data */
+  binary: BinaryEncoding
+
+  /** Selected properties */
+  view: ViewOptions
+
+  /** Strategy for collections, exists only in merge mode */
+  merge?: MergeOptions['collections']
+
+  excess?: ExcessPolicy
+
+  /** Discriminator of Union, which selected class of currently transformed object */
+  discriminator?: string
+
+  /** Issues found so far, exists only in `collect` mode */
+  issues?: TransformIssue[]
+
+  /** Objects by `$id`, exists only if references are enabled */
+  refs?: Map<string, Object>
+
+  /** Updates of merged instances, which are applied only when the whole json is transformed, exists only in merge mode */
+  commits?: (() => void)[]
+}
+
+/** State shared between nested calls during one serialization */
+interface SerializeContext {
+  cycles: NonNullable<ToJSONOptions['cycles']>
+  bigint: NonNullable<ToJSONOptions['bigint']>
+  binary: BinaryEncoding
+  view: ViewOptions
+  getters: boolean
+
+  /** JSON pointer to currently serialized object */
+  path: string
+
+  /** Objects being serialized, to detect cycles */
+  ancestors: Set<Object>
+
+  /** Serialized objects with their `$id`, exists only in `reference` mode */
+  refs?: Map<Object, { plain: Object, id: string }>
+
+  /** BigInt, binary data, dates and Map are kept as they are, to be written by binary format */
+  native?: boolean
+}
+
+/** Options for toJSONStream method */
+export interface ToJSONStreamOptions extends ToJSONOptions {
+  /** Is `ndjson` by default */
+  format?: StreamFormat
+}
+
+/** JSON Schema document or subschema, see Transformer.toJSONSchema */
+export interface JSONSchema {
+  $schema?: string
+  $ref?: string
+  $defs?: Record<string, JSONSchema>
+  type?: string | string[]
+  contentEncoding?: string
+  format?: string
+  pattern?: string
+  minimum?: number
+  maximum?: number
+  minLength?: number
+  maxLength?: number
+  const?: unknown
+  enum?: unknown[]
+  properties?: Record<string, JSONSchema>
+  required?: string[]
+  additionalProperties?: JSONSchema | boolean
+  items?: JSONSchema
+  prefixItems?: JSONSchema[]
+  uniqueItems?: boolean
+  minItems?: number
+  maxItems?: number
+  minProperties?: number
+  maxProperties?: number
+  oneOf?: JSONSchema[]
+  anyOf?: JSONSchema[]
+}
+
+/** State shared between nested calls during JSON Schema generation */
+interface SchemaContext {
+  /** Default strict mode for properties without descriptor, selects required properties */
+  strict: StrictMode
+
+  /** Schemas of classes */
+  defs: Record<string, JSONSchema>
+
+  /** Names of classes in defs */
+  names: Map<Function, string>
+}
+
+/** Transformer specialized for one class, see Transformer.compile */
+export interface CompiledTransformer<T extends Object> {
+  fromJSON(json: JSON | Object, strict?: StrictMode | FromJSONOptions): T
+  toJSON(instance: T, options?: ToJSONOptions): JSON | Object
+  merge(instance: T, json: JSON | Object, strict?: StrictMode | MergeOptions): T
+}
+
+/** Selects transformation of class property in fromJSON */
+type PropertyKind = 'converter' | 'union' | 'undeclared' | 'primitive' | 'bigint' | 'binary' | 'array' | 'map' | 'set' | 'date' | 'class' | 'plain'
+
+/** Result of analysis of class property */
+interface PropertyPlan {
+  property: string
+
+  /** Name of property in json */
+  key: string
+
+  descriptor: TypeDescriptor
+  kind: PropertyKind
+
+  /** Class of nested object, constructor of primitive or of binary data, exists only for `class`, `primitive` and `binary` kinds */
+  Class?: { new (): Object }
+
+  /** Registered converter, exists only for `converter` kind, if descriptor doesn't declare its own */
+  converter?: TypeConverter
+
+  /** Initial value is null or undefined */
+  nullable: boolean
+
+  /** Descriptor declares constraints */
+  constrained: boolean
+}
+
+/** Result of analysis of class, see Transformer.compile */
+interface ClassPlan {
+  types: Schema<Object>
+  properties: PropertyPlan[]
+
+  /** Same properties by their names, exists only in compiled plans */
+  byName?: Map<string, PropertyPlan>
+
+  /** Names of properties in json, exists only in compiled plans */
+  keys?: Set<string>
+
+  /** Catch-all property for properties of json, which are not declared in class */
+  capture?: string
+
+  /** Static members of class, exist only in compiled plans */
+  statics?: ClassStatics
+
+  /** Own properties of analyzed instance, exist only in plans of not compiled classes, see #reflect */
+  shape?: PropertyShape[]
+}
+
+/** Own property of analyzed instance with type of its initial value */
+interface PropertyShape {
+  property: string
+  descriptor: TypeDescriptor | undefined
+
+  /** Initial values of properties without setters are not read */
+  writable: boolean
+  type?: unknown
+}
+
+/** Static members of class, which are read by fromJSON */
+interface ClassStatics {
+  beforeHydrate: boolean
+  factory?: (values: Record<string, any>) => Object
+  excess?: ExcessPolicy
+}
+
+/** Describes expected behaviour during transformation,
+ * and types of Target properties. <br />
+ *
+ * Use this only for `nullable properties`, or to describe `types of collections`. <br />
+ * There is no reason to describe each property, is much better and easier to set default values.
+ * */
+export type Schema<T extends Object> = {
+  [Property in keyof T]?: T[Property] extends Function ? never : TypeDescriptor<T[Property], T>
+}
+
+/** Transform json or plain object to class instance and vice versa. <br />
+ * Instances carry their own options and converters, static methods use Transformer.default.
+ * */
+export class Transformer {
+  /** Instance used by static methods */
+  static readonly default = new Transformer()
+
+  /** Naming strategy of Transformer.default */
+  static get naming(): NamingStrategy | undefined {
+    return this.default.naming
+  }
+
+  static set naming(naming: NamingStrategy | undefined) {
+    this.default.naming = naming
+  }
+
+  static fromJSON<T extends Object>(json: JSON | Object, ctor: { new (...args: any[]): T }, strict?: StrictMode | FromJSONOptions): T {
+    return this.default.fromJSON(json, ctor, strict)
+  }
+
+  static fromJSONStream<T extends Object>(source: JSONSource, ctor: { new (...args: any[]): T }, strict?: StrictMode | FromJSONStreamOptions): AsyncIterableIterator<T> {
+    return this.default.fromJSONStream(source, ctor, strict)
+  }
+
+  static toJSON(instance: Object, options?: ToJSONOptions): JSON | Object {
+    return this.default.toJSON(instance, options)
+  }
+
+  static toBinary(instance: Object, options?: ToJSONOptions): Uint8Array {
+    return this.default.toBinary(instance, options)
+  }
+
+  static fromBinary<T extends Object>(bytes: Uint8Array | ArrayBuffer, ctor: { new (...args: any[]): T }, strict?: StrictMode | FromJSONOptions): T {
+    return this.default.fromBinary(bytes, ctor, strict)
+  }
+
+  static toJSONStream<T extends Object>(source: AsyncIterable<T> | Iterable<T>, options?: ToJSONStreamOptions): AsyncIterableIterator<string> {
+    return this.default.toJSONStream(source, options)
+  }
+
+  static merge<T extends Object>(instance: T, json: JSON | Object, strict?: StrictMode | MergeOptions): T {
+    return this.default.merge(instance, json, strict)
+  }
+
+  static compile<T extends Object>(ctor: { new (...args: any[]): T }): CompiledTransformer<T> {
+    return this.default.compile(ctor)
+  }
+
+  static toJSONSchema(ctor: { new (...args: any[]): Object }, strict?: StrictMode): JSONSchema {
+    return this.default.toJSONSchema(ctor, strict)
+  }
+
+  static clone<T>(value: T): T {
+    return this.default.clone(value)
+  }
+
+  static equals(a: unknown, b: unknown): boolean {
+    return this.default.equals(a, b)
+  }
+
+  static diff(a: Object, b: Object, options?: ToJSONOptions): PatchOperation[] {
+    return this.default.diff(a, b, options)
+  }
+
+  static applyPatch<T extends Object>(instance: T, patch: PatchOperation[], strict?: StrictMode | FromJSONOptions): T {
+    return this.default.applyPatch(instance, patch, strict)
+  }
+
+  #object = Object.create(null);
+  #primitives = new Set<Function>([String, Number, Boolean])
+  #builtins = new Set<Function>([String, Number, Boolean, BigInt, Object, Array, Map, Set, Date, ...binaries])
+  /** Methods, which change collections and dates, are locked in frozen values */
+  #mutators: [Function, string[]][] = [
+    [Map, ['set', 'delete', 'clear']],
+    [Set, ['add', 'delete', 'clear']],
+    [Date, Object.getOwnPropertyNames(Date.prototype).filter(name => name.startsWith('set'))]
+  ]
+
+  /** Describes how names of class properties are written in json, used by fromJSON and toJSON. <br />
+   * Names are used "as is" by default.
+   * */
+  get naming(): NamingStrategy | undefined {
+    return this.#naming
+  }
+
+  set naming(naming: NamingStrategy | undefined) {
+    this.#naming = naming
+    // compiled plans contain names of properties in json
+    this.#plans = new WeakMap()
+    this.#analyses = new WeakMap()
+  }
+
+  #naming?: NamingStrategy
+
+  /** Default strict mode of fromJSON, merge and toJSONSchema */
+  #strict: StrictMode
+
+  /** Default forms of dates, descriptors take precedence */
+  #date?: DateOptions
+
+  /** Converters of third-party types, see register */
+  #converters = new Map<Function, TypeConverter>()
+
+  /** Compiled classes */
+  #plans = new WeakMap<Function, ClassPlan>()
+
+  /** The last analyses of not compiled classes */
+  #analyses = new WeakMap<Function, ClassPlan>()
+
+  /** Static members of classes */
+  #members = new WeakMap<Function, ClassStatics>()
+
+  /** Analyzed collection descriptors */
+  #collections = new WeakMap<TypeDescriptor, CollectionPlan>()
+
+  constructor({ strict = true, date, naming }: TransformerOptions = {}) {
+    this.#strict = strict
+    this.#date = date
+    this.naming = naming
+  }
+
+  /** Registers converter of type, which is used wherever values of the type appear: as initial values of properties,
+   * as declared types of properties, collection elements and Map keys. Subclasses of the type use the same converter. <br />
+   * Takes precedence over built in transformations, descriptors with their own converters take precedence over it.
+   * Compiled classes are analyzed again, see compile.
+   * */
+  register<V extends Object>(Type: abstract new (...args: any[]) => V, converter: TypeConverter<V>): this {
+    this.#converters.set(Type, converter)
+    // classes and elements are analyzed again, because they can contain values of the type
+    this.#plans = new WeakMap()
+    this.#analyses = new WeakMap()
+    this.#collections = new WeakMap()
+    return this
+  }
+
+  /** Returns converter registered for type or for its parents */
+  #converter(Type: unknown): TypeConverter | undefined {
+    if (!this.#converters.size) return undefined
+    for (let ctor = Type; typeof ctor === 'function' && ctor !== Function.prototype; ctor = Reflect.getPrototypeOf(ctor)) {
+      const converter = this.#converters.get(ctor)
+      if (converter) return converter
+    }
+    return undefined
+  }
+
+  fromJSON<T extends Object>(json: JSON | Object, ctor: { new (...args: any[]): T }, strict: StrictMode | FromJSONOptions = {}): T {
+    return this.#transform(json, ctor, typeof strict === 'object' ? strict : { strict }, '')
+  }
+
+  /** Transforms records of NDJSON or top-level json array one at a time, without loading the whole json. <br />
+   * Paths of errors start with index of the record, i.e. `/3/phone`.
+   * */
+  fromJSONStream<T extends Object>(source: JSONSource, ctor: { new (...args: any[]): T }, strict: StrictMode | FromJSONStreamOptions = {}): AsyncIterableIterator<T> {
+    const { format, ...options }: FromJSONStreamOptions = typeof strict === 'object' ? strict : { strict }
+    const reader = records(source, format)
+    let index = 0
+    return iterate({
+      read: async () => {
+        try {
+          const record = await reader.read()
+          return record === undefined ? undefined : this.#transform(JSON.parse(record), ctor, options, `/${index}`)
+        } catch (e) {
+          if (!(e instanceof SyntaxError)) throw e
+          throw new TransformError(`Invalid json in record ${index}: ${e.message}`, { code: 'INVALID_JSON', target: ctor.name, path: `/${index}`, cause: e })
+        } finally {
+          index++
+        }
+      },
+      close: reader.close
+    })
+  }
+
+  /** Transforms instances to NDJSON lines or chunks of top-level json array */
+  toJSONStream<T extends Object>(source: AsyncIterable<T> | Iterable<T>, options: ToJSONStreamOptions = {}): AsyncIterableIterator<string> {
+    const { format = 'ndjson', ...rest } = options
+    const iterator = Symbol.asyncIterator in source ? source[Symbol.asyncIterator]() : source[Symbol.iterator]()
+    let first = true
+    let done = false
+    return iterate({
+      read: async () => {
+        if (done) return undefined
+        const next = await iterator.next()
+        if (next.done) {
+          done = true
+          if (format === 'ndjson') return undefined
+          return first ? '[]' : ']'
+        }
+        const json = JSON.stringify(this.toJSON(await next.value, rest))
+        const chunk = format === 'ndjson' ? `${json}\n` : `${first ? '[' : ','}${json}`
+        first = false
+        return chunk
+      },
+      close: async () => {
+        await iterator.return?.()
+      }
+    })
+  }
+
+  /** Updates existing instance with properties, which exist in json. <br />
+   * Values are checked the same way as in fromJSON, but missed properties are not required.
+   * Nested objects are updated instead of being replaced, and null in json clears properties, which are null by default.
+   * Instance is updated only when the whole json is transformed, failed merge leaves it unchanged.
+   * Instances, which can't be updated (frozen, not extensible or created by factory), are replaced, so the returned instance should be used.
+   * */
+  merge<T extends Object>(instance: T, json: JSON | Object, strict: StrictMode | MergeOptions = {}): T {
+    const options: MergeOptions = typeof strict === 'object' ? strict : { strict }
+    const ctor = Reflect.getPrototypeOf(instance)?.constructor as { new (...args: any[]): T }
+    return this.#transform(json, ctor, { ...options, collections: options.collections ?? 'replace' }, '', instance)
+  }
+
+  #transform<T extends Object>(json: JSON | Object, ctor: { new (...args: any[]): T }, options: MergeOptions, path: string, target?: T): T {
+    const context: Context = {
+      strict: options.strict ?? this.#strict,
+      base: path,
+      binary: options.binary ?? 'base64',
+      view: options,
+      excess: options.excess,
+      issues: options.collect ? [] : undefined,
+      refs: options.references ? new Map() : undefined,
+      merge: target ? options.collections : undefined,
+      commits: target ? [] : undefined
+    }
+    const instance = this.#fromJSON(json, ctor, context, target)
+    if (context.issues?.length) throw new TransformAggregateError(context.issues, ctor.name)
+    context.commits?.forEach(commit => commit())
+    if (options.freeze) this.#freeze(instance, new WeakSet())
+    return instance
+  }
+
+  /** Returns deep copy of value with the same classes, without going through json. <br />
+   * Shared and circular references are kept, values of registered types are copied by their converters.
+   * Private fields (`#field`) can't be copied.
+   * */
+  clone<T>(value: T): T {
+    return this.#clone(value, new Map())
+  }
+
+  #clone(value: unknown, copies: Map<Object, Object>): any {
+    if (value == null || typeof value !== 'object') return value
+    const known = copies.get(value)
+    if (known) return known
+    const converter = this.#converter(value.constructor)
+    if (converter) return converter.deserialize(converter.serialize(value))
+    if (isBinary(value)) return copy(value)
+    const ctor = Reflect.getPrototypeOf(value)?.constructor
+    // collections and dates are created by their built in constructors, with prototypes of their subclasses
+    let result: Object
+    if (value instanceof Date) result = Reflect.construct(Date, [value.getTime()], ctor!)
+    else if (value instanceof Map) result = Reflect.construct(Map, [], ctor!)
+    else if (value instanceof Set) result = Reflect.construct(Set, [], ctor!)
+    else if (Array.isArray(value)) result = Reflect.construct(Array, [], ctor!)
+    else result = Object.create(Reflect.getPrototypeOf(value))
+    // saved before properties are copied, because they can reference this object
+    copies.set(value, result)
+    if (value instanceof Map) value.forEach((item, key) => (result as Map<unknown, unknown>).set(this.#clone(key, copies), this.#clone(item, copies)))
+    if (value instanceof Set) value.forEach(item => (result as Set<unknown>).add(this.#clone(item, copies)))
+    Reflect.ownKeys(value).forEach(key => {
+      const descriptor = Reflect.getOwnPropertyDescriptor(value, key)!
+      if ('value' in descriptor) descriptor.value = this.#clone(descriptor.value, copies)
+      Reflect.defineProperty(result, key, descriptor)
+    })
+    if (!Object.isExtensible(value)) Object.preventExtensions(result)
+    return result
+  }
+
+  /** Compares values structurally: classes of objects and their own properties, elements of collections,
+   * times of dates and bytes of binary data. Properties, which are functions in both objects, are ignored.
+   * Values of registered types are compared by their json.
+   * */
+  equals(a: unknown, b: unknown): boolean {
+    return this.#equals(a, b, new Map())
+  }
+
+  #equals(a: unknown, b: unknown, compared: Map<Object, Object>): boolean {
+    if (Object.is(a, b) || a === b) return true
+    if (a == null || b == null || typeof a !== 'object' || typeof b !== 'object') return false
+    if (Reflect.getPrototypeOf(a) !== Reflect.getPrototypeOf(b)) return false
+    // objects are considered equal while they are compared, to stop on circular references
+    if (compared.get(a) === b) return true
+    compared.set(a, b)
+    const equal = this.#equalObjects(a, b, compared)
+    compared.delete(a)
+    return equal
+  }
+
+  #equalObjects(a: Object, b: Object, compared: Map<Object, Object>): boolean {
+    const converter = this.#converter(a.constructor)
+    if (converter) return this.#equals(converter.serialize(a), converter.serialize(b), compared)
+    if (isBinary(a)) return equalBytes(a, b as typeof a)
+    if (a instanceof Date && !Object.is(a.getTime(), (b as Date).getTime())) return false
+    if (a instanceof Map) {
+      const other = b as Map<unknown, unknown>
+      if (a.size !== other.size) return false
+      // keys, which are objects, are searched by structure among keys, which are missed in `a`
+      const candidates = [...other].filter(([key]) => !a.has(key))
+      for (const [key, item] of a) {
+        if (other.has(key)) {
+          if (!this.#equals(item, other.get(key), compared)) return false
+          continue
+        }
+        if (!this.#take(candidates, ([candidate, value]) => this.#equals(key, candidate, compared) && this.#equals(item, value, compared))) return false
+      }
+    }
+    if (a instanceof Set) {
+      const other = b as Set<unknown>
+      if (a.size !== other.size) return false
+      const candidates = [...other].filter(item => !a.has(item))
+      for (const item of a) if (!other.has(item) && !this.#take(candidates, candidate => this.#equals(item, candidate, compared))) return false
+    }
+    const keys = Object.keys(a)
+    if (keys.length !== Object.keys(b).length) return false
+    return keys.every(key => {
+      if (!Object.hasOwn(b, key)) return false
+      const left = Reflect.get(a, key)
+      const right = Reflect.get(b, key)
+      return (typeof left === 'function' && typeof right === 'function') || this.#equals(left, right, compared)
+    })
+  }
+
+  /** Removes the first matching candidate, so that every candidate is matched only once */
+  #take<T>(candidates: T[], matches: (candidate: T) => boolean): boolean {
+    const index = candidates.findIndex(matches)
+    if (index !== -1) candidates.splice(index, 1)
+    return index !== -1
+  }
+
+  /** Returns JSON Patch (RFC 6902), which turns json of instance `a` into json of instance `b`. <br />
+   * Paths are written with names of properties in json, elements of arrays are compared by their indexes.
+   * */
+  diff(a: Object, b: Object, options?: ToJSONOptions): PatchOperation[] {
+    return diff(this.toJSON(a, options), this.toJSON(b, options))
+  }
+
+  /** Applies JSON Patch to json of instance, and updates the instance with the result. <br />
+   * Patched json is checked the same way as in fromJSON. Instances, which can't be updated (frozen or created by factory),
+   * are replaced, so the returned instance should be used.
+   * */
+  applyPatch<T extends Object>(instance: T, patch: PatchOperation[], strict: StrictMode | FromJSONOptions = {}): T {
+    const options: FromJSONOptions = typeof strict === 'object' ? strict : { strict }
+    const ctor = Reflect.getPrototypeOf(instance)?.constructor as { new (...args: any[]): T }
+    const { groups, exclude, include, binary } = options
+    let json: unknown
+    try {
+      json = apply(this.toJSON(instance, { groups, exclude, include, binary }), patch)
+    } catch (e) {
+      if (!(e instanceof PatchError)) throw e
+      throw new TransformError(e.message, { code: 'INVALID_PATCH', target: ctor.name, path: e.path, cause: e })
+    }
+    const result = this.fromJSON(json as Object, ctor, options)
+    if (this.#statics(ctor).factory || !Object.isExtensible(instance)) return result
+    // only properties, which could be changed by patch, are updated
+    const { properties, capture } = this.#plans.get(ctor) || this.#analyze(ctor, this.#sample(ctor))
+    properties.forEach(({ property, descriptor }) => {
+      if (this.#visible(property, descriptor, options)) Reflect.set(instance, property, Reflect.get(result, property))
+    })
+    if (capture) Reflect.set(instance, capture, Reflect.get(result, capture))
+    return instance
+  }
+
+  /** Analyzes class once and caches the result, so that fromJSON and toJSON skip the analysis
+   * for this class, for classes of its nested objects and for classes of collection elements. <br />
+   * Expects that initial values of class properties have the same types in every instance. <br />
+   * Analysis is discarded when naming changes or a converter is registered,
+   * returned transformer compiles the class again on its next call.
+   * */
+  compile<T extends Object>(ctor: { new (...args: any[]): T }): CompiledTransformer<T> {
+    this.#compile(ctor)
+    return {
+      fromJSON: (json, strict) => this.#compile(ctor).fromJSON(json, ctor, strict),
+      toJSON: (instance, options) => this.#compile(ctor).toJSON(instance, options),
+      merge: (instance, json, strict) => this.#compile(ctor).merge(instance, json, strict)
+    }
+  }
+
+  /** Analyzes class and classes of its nested objects, unless they are compiled already */
+  #compile(ctor: { new (...args: any[]): Object }): this {
+    if (!this.#plans.has(ctor)) {
+      const plan = this.#analyze(ctor, this.#sample(ctor))
+      plan.byName = new Map(plan.properties.map(property => [property.property, property]))
+      plan.keys = this.#keys(plan.properties)
+      plan.statics = this.#statics(ctor)
+      // saved before nested classes are compiled, because they can reference this class
+      this.#plans.set(ctor, plan)
+      plan.properties.forEach(({ Class, descriptor }) => {
+        [Class, ...this.#classes(descriptor)].forEach(Nested => {
+          if (typeof Nested !== 'function' || this.#builtins.has(Nested) || this.#converter(Nested)) return
+          try {
+            this.#compile(Nested as { new (): Object })
+          } catch {
+            // invalid nested class will be reported by fromJSON
+          }
+        })
+      })
+    }
+    return this
+  }
+
+  /** Returns classes declared in descriptor, in unions and in nested descriptors */
+  #classes({ type, of, keys }: TypeDescriptor): unknown[] {
+    return [type, of, keys].flatMap(Type => {
+      if (this.#isUnion(Type)) return Object.values(Type.mapping)
+      if (this.#isDescriptor(Type)) return this.#classes(Type)
+      return [Type]
+    })
+  }
+
+  /** Returns JSON Schema (draft 2020-12) of json, expected by fromJSON for the class. <br />
+   * Classes are described in `$defs`. Properties are required, if they are strict. 
+   * */
+  toJSONSchema(ctor: { new (...args: any[]): Object }, strict = this.#strict): JSONSchema {
+    const context: SchemaContext = { strict, defs: {}, names: new Map() }
+    const $ref = this.#define(ctor, context)
+    return { $schema: 'https://json-schema.org/draft/2020-12/schema', $ref, $defs: context.defs }
+  }
+
+  /** Adds schema of class to `$defs`, returns reference to it */
+  #define(ctor: { new (...args: any[]): Object }, context: SchemaContext): string {
+    const { defs, names } = context
+    let name = names.get(ctor)
+    if (!name) {
+      name = ctor.name || 'Anonymous'
+      for (let index = 2; Object.hasOwn(defs, name); index++) name = `${ctor.name || 'Anonymous'}${index}`
+      // saved before properties are described, because they can reference this class
+      names.set(ctor, name)
+      const schema: JSONSchema = { type: 'object', properties: {}, required: [] }
+      defs[name] = schema
+      const { properties } = this.#plans.get(ctor) || this.#analyze(ctor, this.#sample(ctor))
+      if (Reflect.get(ctor, 'excess') === 'reject') schema.additionalProperties = false
+      properties.forEach(plan => {
+        schema.properties![plan.key] = this.#propertySchema(plan, context)
+        if (this.#shouldThrow(context.strict, plan.descriptor)) schema.required!.push(plan.key)
+      })
+    }
+    return `#/$defs/${name}`
+  }
+
+  #propertySchema({ kind, Class, converter, nullable, descriptor }: PropertyPlan, context: SchemaContext): JSONSchema {
+    let schema: JSONSchema
+    switch (kind) {
+      case 'converter':
+        // any value is accepted, if converter doesn't describe its schema
+        if (!converter?.schema) return this.#constrain({}, descriptor)
+        schema = converter.schema
+        break
+      case 'union':
+        schema = this.#elementSchema(descriptor.type, context)
+        break
+      case 'primitive':
+        schema = this.#elementSchema(Class, context)
+        break
+      case 'bigint':
+        schema = this.#elementSchema(BigInt, context)
+        break
+      case 'binary':
+        schema = this.#elementSchema(Class, context, descriptor)
+        break
+      case 'array':
+        schema = { type: 'array', items: this.#elementSchema(descriptor.of, context, descriptor) }
+        break
+      case 'set':
+        schema = { type: 'array', items: this.#elementSchema(descriptor.of, context, descriptor), uniqueItems: true }
+        break
+      case 'map':
+        schema = this.#mapSchema(descriptor, context)
+        break
+      case 'date':
+        schema = this.#dateSchema(descriptor.date ?? this.#date)
+        break
+      case 'class':
+        schema = { $ref: this.#define(Class!, context) }
+        break
+      case 'plain':
+        schema = { type: 'object' }
+        break
+      default:
+        // type is not declared
+        return this.#constrain({}, descriptor)
+    }
+    schema = this.#constrain(schema, descriptor)
+    return nullable ? this.#nullable(schema) : schema
+  }
+
+  /** Describes value of given Type, descriptor selects forms of binary data and dates */
+  #elementSchema(Type: TypeDescriptor['of'], context: SchemaContext, descriptor: TypeDescriptor = this.#object): JSONSchema {
+    if (this.#isDescriptor(Type)) return this.#constrain(this.#nestedSchema(Type, context), Type)
+    if (this.#isUnion(Type)) {
+      const { discriminator, mapping } = Type
+      return {
+        oneOf: Object.keys(mapping).map(value => ({
+          $ref: this.#define(mapping[value], context),
+          properties: { [discriminator]: { const: value } },
+          required: [discriminator]
+        }))
+      }
+    }
+    if (typeof Type !== 'function') return {}
+    const converter = this.#converter(Type)
+    if (converter) return converter.schema ?? {}
+    if (Type === String) return { type: 'string' }
+    if (Type === Number) return { type: 'number' }
+    if (Type === Boolean) return { type: 'boolean' }
+    if (Type === Date) return this.#dateSchema(descriptor.date ?? this.#date)
+    if (Type === BigInt) return { type: ['string', 'integer'], pattern: '^-?\\d+$' }
+    if (binaryType(Type)) return this.#binarySchema(Type, descriptor.binary ?? 'base64', context)
+    return { $ref: this.#define(Type as { new (): Object }, context) }
+  }
+
+  /** Describes collection elements, declared by nested descriptor */
+  #nestedSchema(descriptor: TypeDescriptor, context: SchemaContext): JSONSchema {
+    const Type = this.#nestedType(descriptor)
+    if (!this.#isCollection(Type)) return this.#elementSchema(Type, context, descriptor)
+    const items = this.#elementSchema(descriptor.of, context, descriptor)
+    if (this.#extends(Type, Map)) return this.#mapSchema(descriptor, context)
+    if (this.#extends(Type, Set)) return { type: 'array', items, uniqueItems: true }
+    return { type: 'array', items }
+  }
+
+  #mapSchema(descriptor: TypeDescriptor, context: SchemaContext): JSONSchema {
+    const items = this.#elementSchema(descriptor.of, context, descriptor)
+    if (!descriptor.entries) return { type: 'object', additionalProperties: items }
+    const keys = this.#elementSchema(descriptor.keys, context, descriptor)
+    return { type: 'array', items: { type: 'array', prefixItems: [keys, items], minItems: 2, maxItems: 2 } }
+  }
+
+  #dateSchema(options?: DateOptions): JSONSchema {
+    if (options?.input === undefined) return { type: 'string', format: 'date-time' }
+    const schemas = [options.input].flat().map((format): JSONSchema => {
+      if (format === 'iso') return { type: 'string', format: 'date-time' }
+      if (format === 'date') return { type: 'string', format: 'date' }
+      return { type: 'number' }
+    })
+    // epoch in milliseconds and in seconds are described by the same schema
+    const unique = schemas.filter((schema, index) => schemas.findIndex(other => other.format === schema.format) === index)
+    return unique.length === 1 ? unique[0] : { anyOf: unique }
+  }
+
+  #binarySchema(Type: Function, encoding: BinaryEncoding, context: SchemaContext): JSONSchema {
+    if (encoding === 'hex') return { type: 'string', contentEncoding: 'base16', pattern: '^([0-9a-fA-F]{2})*$' }
+    if (encoding !== 'array') return { type: 'string', contentEncoding: encoding }
+    if (this.#extends(Type, BigInt64Array) || this.#extends(Type, BigUint64Array)) return { type: 'array', items: this.#elementSchema(BigInt, context) }
+    return { type: 'array', items: { type: 'number' } }
+  }
+
+  /** Adds keywords for constraints declared in descriptor, custom `validate` can't be described */
+  #constrain(schema: JSONSchema, descriptor: TypeDescriptor): JSONSchema {
+    const { min, max, integer, minLength, maxLength, pattern, minItems, maxItems, unique } = descriptor
+    const result = { ...schema }
+    if (schema.type === 'number') {
+      if (integer) result.type = 'integer'
+      if (typeof min === 'number') result.minimum = min
+      if (typeof max === 'number') result.maximum = max
+    }
+    if (schema.type === 'string' && !schema.contentEncoding) {
+      if (minLength !== undefined) result.minLength = minLength
+      if (maxLength !== undefined) result.maxLength = maxLength
+      if (pattern !== undefined) result.pattern = typeof pattern === 'string' ? pattern : pattern.source
+    }
+    if (schema.type === 'array') {
+      if (minItems !== undefined) result.minItems = minItems
+      if (maxItems !== undefined) result.maxItems = maxItems
+      if (unique) result.uniqueItems = true
+    }
+    // Map is described as object
+    if (schema.type === 'object' && schema.additionalProperties) {
+      if (minItems !== undefined) result.minProperties = minItems
+      if (maxItems !== undefined) result.maxProperties = maxItems
+    }
+    if (descriptor.enum) result.enum = [...descriptor.enum]
+    return result
+  }
+
+  #nullable(schema: JSONSchema): JSONSchema {
+    const values = schema.enum ? { ...schema, enum: [...schema.enum, null] } : schema
+    if (values.type) return { ...values, type: [values.type, 'null'].flat() }
+    if (values.anyOf) return { ...values, anyOf: [...values.anyOf, { type: 'null' }] }
+    return { anyOf: [values, { type: 'null' }] }
+  }
+
+  /** Creates instance of class from json, or updates target instance in merge mode */
+  #fromJSON<T extends Object>(input: JSON | Object, ctor: { new (...args: any[]): T }, context: Context, target?: T): T {
+    const Name = ctor?.name;
+    if (input == null || typeof input !== 'object') {
+      throw new TransformError('Invalid json', { code: 'INVALID_JSON', target: Name, path: this.#path(context), expected: 'Object', received: this.#typeOf(input) });
+    }
+    const { refs } = context
+    if (refs && Object.hasOwn(input, '$ref')) {
+      const id = Reflect.get(input, '$ref')
+      if (refs.has(id)) return refs.get(id) as T
+      throw new TransformError(`Unresolved reference "${id}" in JSON`, { code: 'UNRESOLVED_REFERENCE', target: Name, path: this.#path(context), expected: Name, received: 'String' })
+    }
+    const compiled = this.#plans.get(ctor)
+    const { beforeHydrate, factory, excess } = compiled?.statics ?? this.#statics(ctor)
+    const json = beforeHydrate ? this.#hook(ctor, 'beforeHydrate', input, Name, context) as Object : input
+    if (json == null || typeof json !== 'object') {
+      throw new TransformError(`Invalid json returned by ${Name}.beforeHydrate`, { code: 'INVALID_JSON', target: Name, path: this.#path(context), expected: 'Object', received: this.#typeOf(json) });
+    }
+    // values of classes with factory are collected into plain object.
+    // In merge mode, values are collected into copy of target, so that failed merge doesn't change the target
+    let instance: T
+    if (target) instance = { ...target }
+    else instance = factory ? this.#sample(ctor, context) : this.#construct(ctor, context)
+    // frozen and other not extensible targets can't be updated, so they are replaced by new instances
+    const replacement = target && !factory && !Object.isExtensible(target) ? this.#replacement(ctor, context) : undefined
+    // registered before properties are transformed, so nested objects can reference it. Instance of factory doesn't exist yet
+    if (refs && !factory && Object.hasOwn(json, '$id')) refs.set(Reflect.get(json, '$id'), replacement || target || instance)
+
+    // compiled classes are analyzed only once, others when their initial values or types change. Target is analyzed by its initial values
+    const plan = compiled || this.#reflect(ctor, target ? this.#sample(ctor, context) : instance)
+    const { properties } = plan
+    for (const property of properties) {
+      if (!this.#visible(property.property, property.descriptor, context.view)) continue
+      if (context.merge) {
+        // only properties, which exist in json, are updated in merge mode
+        const jsonValue = Reflect.get(json, property.key)
+        if (jsonValue === undefined) continue
+        if (jsonValue === null && property.nullable) {
+          Reflect.set(instance, property.property, null)
+          continue
+        }
+      }
+      // issues are counted, to check constraints only if the property is transformed without issues
+      const issues = context.issues?.length
+      this.#property(instance, property, json, context, Name)
+      if (property.constrained && context.issues?.length === issues) this.#validate(instance, property, json, context, Name)
+    }
+
+    const policy: ExcessPolicy = excess ?? context.excess ?? (plan.capture ? 'capture' : 'ignore')
+    if (policy !== 'ignore') this.#excess(instance, plan, json, context, Name, policy)
+
+    if (target && !factory && !replacement) {
+      // nested targets are updated first, because their merges finish first
+      context.commits!.push(() => {
+        Object.entries(instance).forEach(([property, value]) => {
+          if (!Object.is(Reflect.get(target, property), value)) Reflect.set(target, property, value)
+        })
+        if (typeof Reflect.get(target, 'afterHydrate') === 'function') this.#hook(target, 'afterHydrate', undefined, Name, context)
+      })
+      return target
+    }
+    if (replacement) Object.assign(replacement, instance)
+    const result = factory ? this.#create(factory, instance, Name, context) as T : replacement ?? instance
+    if (refs && factory && Object.hasOwn(json, '$id')) refs.set(Reflect.get(json, '$id'), result)
+    if (typeof Reflect.get(result, 'afterHydrate') === 'function') this.#hook(result, 'afterHydrate', undefined, Name, context)
+    return result
+  }
+
+  /** Creates instance, which replaces not extensible target in merge mode */
+  #replacement<T extends Object>(ctor: { new (...args: any[]): T }, context: Context): T {
+    const instance = this.#construct(ctor, context)
+    if (Object.isExtensible(instance)) return instance
+    const path = this.#path(context)
+    throw new TransformError(`Cannot merge into ${ctor.name} at "${path}": instance isn't extensible, and its constructor creates not extensible instances`, { code: 'INVALID_CONSTRUCTOR', target: ctor.name, path })
+  }
+
+  /** Reads static members of class once, like descriptors of collections. Constructor is checked later, when instance is created */
+  #statics(ctor: { new (...args: any[]): Object }): ClassStatics {
+    if (typeof ctor !== 'function') return { beforeHydrate: false }
+    let statics = this.#members.get(ctor)
+    if (!statics) {
+      statics = { beforeHydrate: typeof Reflect.get(ctor, 'beforeHydrate') === 'function', factory: this.#factory(ctor), excess: Reflect.get(ctor, 'excess') }
+      this.#members.set(ctor, statics)
+    }
+    return statics
+  }
 
-  /** Will `throw` if type of value in json doesn't match schema. <br/>
-   * Otherwise, the value in json will be used "as is". <br />
-   * Is considering "true" by default. <br />
-   * Takes precedence over the parameter "strict", passed to the fromJSON method as third argument.
+  /** Returns function, which creates instance of class from transformed values, see ClassFactory */
+  #factory(ctor: { new (...args: any[]): Object }): ((values: Record<string, any>) => Object) | undefined {
+    if (typeof ctor !== 'function') return undefined
+    const factory: ClassFactory['factory'] = Reflect.get(ctor, 'factory')
+    const parameters: ClassFactory['parameters'] = Reflect.get(ctor, 'parameters')
+    if (typeof factory === 'function') return values => factory.call(ctor, values)
+    if (Array.isArray(parameters)) return values => Reflect.construct(ctor, parameters.map(name => values[name]))
+    return undefined
+  }
+
+  /** Calls factory of class, wraps its errors into TransformError */
+  #create(factory: (values: Record<string, any>) => Object, values: Record<string, any>, Name: string, context: Context): Object {
+    let instance: Object
+    try {
+      instance = factory(values)
+    } catch (e) {
+      const path = this.#path(context)
+      throw new TransformError(`Cannot create ${Name} at "${path}": ${e instanceof Error ? e.message : e}`, { code: 'INVALID_CONSTRUCTOR', target: Name, path, cause: e })
+    }
+    if (instance == null || typeof instance !== 'object') {
+      throw new TransformError(`Invalid instance returned by factory of ${Name}`, { code: 'INVALID_CONSTRUCTOR', target: Name, path: this.#path(context), received: this.#typeOf(instance) })
+    }
+    return instance
+  }
+
+  /** Returns instance, which is analyzed to find properties of class. <br />
+   * For classes with factory, returns plain object with initial values of properties,
+   * which are found in `types` if instance can't be created without arguments.
    * */
-  strict?: boolean
-}
+  #sample<T extends Object>(ctor: { new (...args: any[]): T }, context?: Context): T {
+    if (!this.#statics(ctor).factory) return this.#construct(ctor, context)
+    try {
+      return { ...this.#construct(ctor) }
+    } catch {
+      return Object.fromEntries(Object.keys(this.#types(ctor)).map(property => [property, undefined])) as T
+    }
+  }
 
-/** Params for transforming collection elements */
-interface ToCollectionElement {
-  Type: { new (): any } | undefined
-  throwable: boolean
-  input: any
-}
+  /** Freezes object, its properties and elements of collections, locks methods of collections and dates */
+  #freeze(value: unknown, frozen: WeakSet<Object>) {
+    if (value == null || typeof value !== 'object' || frozen.has(value)) return
+    if (isBinary(value)) throw new TypeError(`Cannot freeze ${value.constructor.name}: binary data can't be frozen`)
+    frozen.add(value)
+    const [Type, methods] = this.#mutators.find(([Mutable]) => value instanceof Mutable) ?? []
+    methods?.forEach(method => {
+      // own methods are not enumerable, so they are ignored by toJSON and equals
+      const locked = () => {
+        throw new TypeError(`Cannot call ${method} of frozen ${Type!.name}`)
+      }
+      Object.defineProperty(value, method, { value: locked })
+    })
+    if (value instanceof Map) {
+      value.forEach((item, key) => {
+        this.#freeze(key, frozen)
+        this.#freeze(item, frozen)
+      })
+    }
+    if (value instanceof Set) value.forEach(item => this.#freeze(item, frozen))
+    Object.values(value).forEach(item => this.#freeze(item, frozen))
+    Object.freeze(value)
+  }
 
-/** Describes expected behaviour during transformation,
- * and types of Target properties. <br />
- *
- * Use this only for `nullable properties`, or to describe `types of collections`. <br />
- * There is no reason to describe each property, is much better and easier to set default values.
- * */
-export type Schema<T extends Object> = {
-  [Property in keyof T]?: T[Property] extends Function ? never : TypeDescriptor
-}
+  /** Rejects or captures properties of json, which are not declared in class */
+  #excess(instance: Object, { properties, keys = this.#keys(properties), capture }: ClassPlan, json: Object, context: Context, Name: string, policy: ExcessPolicy) {
+    const excess = Object.keys(json).filter(key => {
+      if (keys.has(key) || key === context.discriminator) return false
+      return !context.refs || (key !== '$id' && key !== '$ref')
+    })
+    if (policy === 'reject' && excess.length) {
+      const message = `Unknown properties in JSON for ${Name}: ${excess.map(key => `"${key}"`).join(', ')}`
+      this.#fail(context, { code: 'EXCESS_PROPERTY', target: Name, message, expected: Name, value: json, keys: excess })
+    }
+    if (policy === 'capture' && capture) {
+      const captured = Object.fromEntries(excess.map(key => [key, Reflect.get(json, key)]))
+      // captured properties are added to existing ones in merge mode
+      Reflect.set(instance, capture, context.merge ? { ...Reflect.get(instance, capture), ...captured } : captured)
+    }
+  }
 
-/** Transform json or plain object to class instance and vice versa */
-export class Transformer {
-  static #object = Object.create(null);
-  static #primitives = new Set<Function>([String, Number, Boolean])
+  /** Returns names of properties in json */
+  #keys(properties: PropertyPlan[]) {
+    return new Set(properties.map(plan => plan.key))
+  }
+
+  /** Calls lifecycle hook, wraps its errors into TransformError */
+  #hook(target: Object, name: string, argument: unknown, Name: string, context: Context | SerializeContext): unknown {
+    try {
+      return Reflect.get(target, name).call(target, argument)
+    } catch (e) {
+      const path = 'base' in context ? this.#path(context) : context.path
+      const message = `${Name}.${name} failed at "${path}": ${e instanceof Error ? e.message : e}`
+      throw new TransformError(message, { code: 'HOOK_FAILED', target: Name, path, cause: e })
+    }
+  }
 
-  static fromJSON<T extends Object>(json: JSON | Object, ctor: { new (): T }, strict = true): T {
-    if (json == null || typeof json !== 'object') throw new TransformError('Invalid json');
-    let instance!: T
+  #construct<T extends Object>(ctor: { new (...args: any[]): T }, context?: Context): T {
     try {
-      instance = new ctor();
+      return new ctor();
     } catch (e) {
-      throw new TransformError('Invalid constructor', { cause: e });
+      throw new TransformError('Invalid constructor', { code: 'INVALID_CONSTRUCTOR', target: ctor?.name, path: context ? this.#path(context) : '', cause: e });
+    }
+  }
+
+  /** Returns analysis of instance of not compiled class. The last analysis of the class is reused,
+   * if the instance has the same properties with initial values of the same types, and descriptors are the same
+   * */
+  #reflect<T extends Object>(ctor: { new (...args: any[]): T }, instance: T): ClassPlan {
+    const types: Schema<T> = this.#types(ctor)
+    const last = this.#analyses.get(ctor)
+    if (last && last.types === types && this.#fits(last.shape!, instance, types)) return last
+    const plan = this.#analyze(ctor, instance, types)
+    this.#analyses.set(ctor, plan)
+    return plan
+  }
+
+  /** Checks if instance has the same properties as analyzed one */
+  #fits(shape: PropertyShape[], instance: Object, types: Schema<any>) {
+    const properties = Object.keys(instance)
+    if (properties.length !== shape.length) return false
+    for (let index = 0; index < shape.length; index++) {
+      const { property, descriptor, writable, type } = shape[index]
+      if (properties[index] !== property || Reflect.get(types, property) !== descriptor) return false
+      if (writable && this.#typeOfInitial(Reflect.get(instance, property)) !== type) return false
     }
-    const Name = ctor.name;
-    const types: Schema<T> = Reflect.get(ctor, 'types') || this.#object as Schema<T>;
+    return true
+  }
+
+  /** Returns constructor of object or type of primitive, `null` for null and undefined */
+  #typeOfInitial(value: unknown) {
+    if (value == null) return null
+    return typeof value === 'object' ? value.constructor : typeof value
+  }
+
+  /** Analyzes instance of class, to select transformations of its properties */
+  #analyze<T extends Object>(ctor: { new (...args: any[]): T }, instance: T, types: Schema<T> = this.#types(ctor)): ClassPlan {
+    const properties: PropertyPlan[] = []
+    const shape: PropertyShape[] = []
+    let capture: string | undefined
 
     Object.keys(instance).forEach(property => {
       const descriptor = Reflect.getOwnPropertyDescriptor(instance, property) as PropertyDescriptor;
-      if (!descriptor.writable && !descriptor.set) return;
+      if (!descriptor.writable && !descriptor.set) {
+        shape.push({ property, descriptor: Reflect.get(types, property), writable: false })
+        return
+      }
+
+      // can't use descriptor value, cause property can be an enumerable getter
+      const value = Reflect.get(instance, property)
+      shape.push({ property, descriptor: Reflect.get(types, property), writable: true, type: this.#typeOfInitial(value) })
+      if (typeof value === 'function') return;
 
       const typeDescriptor: TypeDescriptor = Reflect.get(types, property) || this.#object as TypeDescriptor
-      const throwable = this.#shouldThrow(strict, typeDescriptor)
+      if (typeDescriptor.capture) {
+        capture = property
+        return
+      }
+      const { kind, Class, converter } = this.#kind(value, typeDescriptor)
+      properties.push({
+        property,
+        key: this.#key(property, typeDescriptor),
+        descriptor: typeDescriptor,
+        kind,
+        Class,
+        converter,
+        nullable: value == null,
+        constrained: isConstrained(typeDescriptor)
+      })
+    })
 
-      // can't use descriptor value, cause property can be an enumerable getter
-      let value = Reflect.get(instance, property)
+    return { types, properties, capture, shape }
+  }
 
-      if (typeof value === 'function') return;
-      const ValueTypeConstructor = typeDescriptor.type;
-
-      // initial value is undefined or null
-      if (value == null) {
-        // property type is not declared
-        if (!ValueTypeConstructor) {
-          // if mode is strict, throw
-          if (throwable) {
-            throw new TransformError(`Initial value of "${property}" is null, but type is not declared in ${Name}.types.${property}.type`);
-          }
-          // if mode is not strict, leave initial value
-          return
-        } else {
-          try {
-            // if type is declared, we construct it. It will be filled bellow with value from json
-            value = new ValueTypeConstructor();
-          } catch (e) {
-            throw new TransformError(`Invalid constructor in ${Name}.types.${property}.type for "${property}"`);
-          }
+  /** Returns schema of class, declared in static `types` and with decorators. <br />
+   * Static `types` take precedence over decorators.
+   * */
+  #types(ctor: Function): Schema<any> {
+    const types = Reflect.get(ctor, 'types')
+    const descriptors = decorated(ctor)
+    if (!descriptors) return types || this.#object
+    if (!types) return descriptors
+    const schema: Record<string, TypeDescriptor> = { ...descriptors }
+    for (const property of Object.keys(types)) schema[property] = { ...descriptors[property], ...types[property] }
+    return schema
+  }
+
+  /** Selects transformation of property by its TypeDescriptor and initial value */
+  #kind(value: unknown, descriptor: TypeDescriptor): Pick<PropertyPlan, 'kind' | 'Class' | 'converter'> {
+    const Type = descriptor.type
+    if (descriptor.deserialize) return { kind: 'converter' }
+    const converter = this.#converter(value == null ? Type : (value as Object).constructor)
+    if (converter) return { kind: 'converter', converter }
+    if (this.#isUnion(Type)) return { kind: 'union' }
+    if (Type === BigInt || typeof value === 'bigint') return { kind: 'bigint' }
+
+    // initial value is undefined or null
+    if (value == null) {
+      // property type is not declared
+      if (!Type) return { kind: 'undeclared' }
+      // property type is declared, initial value will be constructed during transformation
+      if (this.#primitives.has(Type)) return { kind: 'primitive', Class: Type as { new (): Object } }
+      const Binary = binaryType(Type)
+      if (Binary) return { kind: 'binary', Class: Binary as { new (): Object } }
+      if (this.#extends(Type, Array)) return { kind: 'array' }
+      if (this.#extends(Type, Map)) return { kind: 'map' }
+      if (this.#extends(Type, Set)) return { kind: 'set' }
+      if (this.#extends(Type, Date)) return { kind: 'date' }
+      return { kind: 'class', Class: Type as { new (): Object } }
+    }
+
+    if (typeof value !== 'object') return { kind: 'primitive', Class: Object(value).constructor }
+    if (this.#primitives.has(value!.constructor)) return { kind: 'primitive', Class: value!.constructor as { new (): Object } }
+    // Buffer and other subclasses are transformed as their built in base classes
+    if (isBinary(value)) return { kind: 'binary', Class: binaryType(value.constructor) as { new (): Object } }
+    if (Array.isArray(value)) return { kind: 'array' }
+    if (value instanceof Map) return { kind: 'map' }
+    if (value instanceof Set) return { kind: 'set' }
+    if (value instanceof Date) return { kind: 'date' }
+    const proto = Reflect.getPrototypeOf(value as Object)
+    // Consider that initial value is an object without prototype
+    if (!proto?.constructor) return { kind: 'plain' }
+    return { kind: 'class', Class: proto.constructor as { new (): Object } }
+  }
+
+  #extends(Type: Function, Base: Function) {
+    return Type === Base || Type.prototype instanceof Base
+  }
+
+  /** Transforms value from json and sets it to the property of instance */
+  #property(instance: Object, plan: PropertyPlan, json: Object, context: Context, Name: string) {
+    const { property, key, kind, descriptor: typeDescriptor } = plan
+    const mode = this.#mode(context.strict, typeDescriptor)
+    const throwable = mode !== false
+
+    // can't use descriptor value, cause property can be an enumerable getter
+    let value = Reflect.get(instance, property)
+    // existing nested object is updated in merge mode
+    const current = value
+
+    // custom converter is used instead of built in transformations
+    if (kind === 'converter') {
+      const jsonValue = Reflect.get(json, key)
+      if (typeof jsonValue === 'undefined' && throwable) this.#missing(context, Name, key, value);
+      if (jsonValue == null) return;
+      try {
+        const converted = typeDescriptor.deserialize ? typeDescriptor.deserialize(jsonValue, { property, instance }) : plan.converter!.deserialize(jsonValue)
+        return Reflect.set(instance, property, converted)
+      } catch (e) {
+        if (throwable) {
+          const message = `Cannot deserialize "${key}" in ${Name}: ${e instanceof Error ? e.message : e}`
+          this.#fail(context, { code: 'CONVERTER_FAILED', target: Name, key, message, expected: 'unknown', value: jsonValue, cause: e })
         }
+        // if mode is not strict, leave initial value
+        return
       }
+    }
 
-      const jsonValue = Reflect.get(json, property)
+    const ValueTypeConstructor = typeDescriptor.type;
 
-      // if property doesn't exist in JSON and mode is strict, then throw
-      if (typeof jsonValue === 'undefined' && throwable) {
-        throw new TransformError(`Property "${property}" is missed in JSON but required in ${Name}`)
+    // class of value is selected by discriminator property in json
+    if (this.#isUnion(ValueTypeConstructor)) {
+      const jsonValue = Reflect.get(json, key)
+      if (typeof jsonValue === 'undefined' && throwable) this.#missing(context, Name, key, value);
+      if (jsonValue == null) return;
+      if (typeof jsonValue !== 'object') {
+        if (throwable) this.#mismatch(context, Name, key, 'Object', jsonValue);
+        return
       }
+      const nested = this.#nested(context, key, mode, ValueTypeConstructor.discriminator)
+      const Type = this.#resolve(ValueTypeConstructor, jsonValue, nested, Name, throwable)
+      // if mode is not strict, leave initial value
+      if (!Type) return;
+      return Reflect.set(instance, property, this.#fromJSON(jsonValue, Type, nested))
+    }
 
-      // if property exist in JSON, but value is null
+    // BigInt can't be constructed with `new`, and is written as string or number in json
+    if (kind === 'bigint') {
+      const jsonValue = Reflect.get(json, key)
+      if (typeof jsonValue === 'undefined' && throwable) this.#missing(context, Name, key, value);
       if (jsonValue == null) return;
+      const bigint = this.#toBigInt(jsonValue)
+      if (bigint === undefined) {
+        if (throwable) this.#mismatch(context, Name, key, 'BigInt', jsonValue);
+        // if mode is not strict, leave initial value
+        return
+      }
+      return Reflect.set(instance, property, bigint)
+    }
 
-      // now we are sure, that values in JSON and class are not undefined or null
-      // checking if value is a primitive or created above with primitive constructor (String, Number or Boolean)
-      if (Object(value) !== value || this.#primitives.has(value!.constructor)) {
-        if (value!.constructor !== jsonValue.constructor) {
-          // if types are not equal and mode is strict, then throw
-          if (throwable) {
-            throw new TransformError(`Type of "${property}" in JSON is not "${value.constructor}" as ${Name} expect`);
-          }
-          // if mode is not strict, then leave initial value
-          // but value may be created with primitive constructor, that's why we use valueOf here
-          // @ts-ignore
-          return Reflect.set(instance, property, value.valueOf())
-        }
-        // if types are equal, using value from JSON
-        return Reflect.set(instance, property, jsonValue)
+    // binary data is written as string or array of numbers in json, DataView can't be constructed without buffer
+    if (kind === 'binary') {
+      const jsonValue = Reflect.get(json, key)
+      if (typeof jsonValue === 'undefined' && throwable) this.#missing(context, Name, key, value);
+      if (jsonValue == null) return;
+      const binary = decode(jsonValue, plan.Class!, typeDescriptor.binary ?? context.binary)
+      if (!binary) {
+        if (throwable) this.#mismatch(context, Name, key, plan.Class!.name, jsonValue);
+        // if mode is not strict, leave initial value
+        return
       }
+      return Reflect.set(instance, property, binary)
+    }
 
-      // now the value is an Object, but it can be a collection
+    // property type is not declared, and initial value is undefined or null
+    if (kind === 'undeclared') {
+      // if mode is strict, throw
+      if (throwable) {
+        this.#fail(context, {
+          code: 'UNDECLARED_TYPE',
+          target: Name,
+          key,
+          message: `Initial value of "${property}" is null, but type is not declared in ${Name}.types.${property}.type`,
+          expected: 'unknown',
+          value: Reflect.get(json, key)
+        });
+      }
+      // if mode is not strict, leave initial value
+      return
+    }
 
-      // Getting declared type of Collection elements if exists
-      const Type = Reflect.get(typeDescriptor, 'of')
-      if (Array.isArray(value)) {
-        if (!Array.isArray(jsonValue)) {
-          // if json value is not Array, and mode is strict, then throw
-          if (throwable) {
-            throw new TransformError(`Type of "${property}" in JSON is not "Array" as ${Name} expect`);
-          }
-          // if mode is not strict, leave initial value
-          return Reflect.set(instance, property, value);
+    // class with factory can't be constructed without values, it is created by fromJSON below
+    const factory = kind === 'class' && this.#statics(plan.Class!).factory !== undefined
+    if (value == null && !factory) {
+      try {
+        // if type is declared, we construct it. It will be filled bellow with value from json
+        value = new (ValueTypeConstructor as { new (): any })();
+      } catch (e) {
+        throw new TransformError(`Invalid constructor in ${Name}.types.${property}.type for "${property}"`, {
+          code: 'INVALID_CONSTRUCTOR',
+          target: Name,
+          path: this.#pointer(context, key),
+          cause: e
+        });
+      }
+    }
+
+    let jsonValue = Reflect.get(json, key)
+
+    // if property doesn't exist in JSON and mode is strict, then throw
+    if (typeof jsonValue === 'undefined' && throwable) {
+      this.#missing(context, Name, key, value)
+    }
+
+    // if property exist in JSON, but value is null
+    if (jsonValue == null) return;
+
+    // now we are sure, that values in JSON and class are not undefined or null
+    // checking if value is a primitive or created above with primitive constructor (String, Number or Boolean)
+    if (kind === 'primitive') {
+      const coerced = mode === 'coerce' && value!.constructor !== jsonValue.constructor ? coerce(jsonValue, value!.constructor) : undefined
+      if (coerced !== undefined) return Reflect.set(instance, property, coerced)
+      if (value!.constructor !== jsonValue.constructor) {
+        // if types are not equal and mode is strict, then throw
+        if (throwable) {
+          this.#mismatch(context, Name, key, this.#expected(value, plan), jsonValue);
         }
+        // if mode is not strict, then leave initial value
+        // but value may be created with primitive constructor, that's why we use valueOf here
+        return Reflect.set(instance, property, value.valueOf())
+      }
+      // if types are equal, using value from JSON
+      return Reflect.set(instance, property, jsonValue)
+    }
 
-        try {
-          for (const input of jsonValue) {
-            value.push(this.#toElementType({ input, Type, throwable }));
-          }
-        } catch (e) {
-          if (throwable) {
-            throw new TransformError(`Cannot transform elements of ${Name}.${property}`, { cause: e });
-          }
+    // now the value is an Object, but it can be a collection
+
+    // single value is read as collection with one element in coerce mode
+    if (mode === 'coerce' && (kind === 'array' || kind === 'set') && !Array.isArray(jsonValue)) jsonValue = [jsonValue]
+    if (kind === 'array') {
+      if (!Array.isArray(jsonValue)) {
+        // if json value is not Array, and mode is strict, then throw
+        if (throwable) {
+          this.#mismatch(context, Name, key, this.#expected(value, plan), jsonValue);
         }
+        // if mode is not strict, leave initial value
         return Reflect.set(instance, property, value);
       }
 
-      if (value instanceof Map) {
-        if (jsonValue.constructor !== Object) {
-          if (throwable) {
-            throw new TransformError(`Type of "${property}" in JSON is not "Object" as ${Name} expect`);
-          }
-          return Reflect.set(instance, property, value);
+      value = this.#merged(value, context, typeDescriptor)
+      try {
+        this.#fill(value, jsonValue, this.#elements(context, key, mode, typeDescriptor, Name, { property, instance }))
+      } catch (e) {
+        if (throwable) {
+          throw new TransformError(`Cannot transform elements of ${Name}.${property}`, {
+            code: 'INVALID_ELEMENTS',
+            target: Name,
+            path: this.#pointer(context, key),
+            expected: this.#expected(value, plan),
+            received: this.#typeOf(jsonValue),
+            cause: e
+          });
         }
+      }
+      return Reflect.set(instance, property, value);
+    }
 
-        try {
-          for (const key in jsonValue) {
-            const input = jsonValue[key]
-            value.set(key, this.#toElementType({ input, Type, throwable }));
-          }
-        } catch (e) {
-          if (throwable) {
-            throw new TransformError(`Cannot transform elements of ${Name}.${property}`, { cause: e });
-          }
+    if (kind === 'map') {
+      // json object or array of entries
+      if (jsonValue.constructor !== Object && !Array.isArray(jsonValue) && !(jsonValue instanceof Map)) {
+        if (throwable) {
+          this.#mismatch(context, Name, key, this.#expected(value, plan), jsonValue);
         }
         return Reflect.set(instance, property, value);
       }
 
-      if (value instanceof Set) {
-        if (!Array.isArray(jsonValue)) {
-          if (throwable) throw new TransformError(`Type of "${property}" in JSON is not "Array" as ${Name} expect`);
-          return
+      value = this.#merged(value, context, typeDescriptor)
+      try {
+        this.#fill(value, jsonValue, this.#elements(context, key, mode, typeDescriptor, Name, { property, instance }))
+      } catch (e) {
+        if (throwable) {
+          throw new TransformError(`Cannot transform elements of ${Name}.${property}`, {
+            code: 'INVALID_ELEMENTS',
+            target: Name,
+            path: this.#pointer(context, key),
+            expected: this.#expected(value, plan),
+            received: this.#typeOf(jsonValue),
+            cause: e
+          });
         }
+      }
+      return Reflect.set(instance, property, value);
+    }
 
-        try {
-          for (const input of jsonValue) {
-            value.add(this.#toElementType({ input, Type, throwable }));
-          }
-        } catch (e) {
-          if (throwable) {
-            throw new TransformError(`Cannot transform elements of ${Name}.${property}`, { cause: e });
-          }
+    if (kind === 'set') {
+      if (!Array.isArray(jsonValue)) {
+        if (throwable) this.#mismatch(context, Name, key, this.#expected(value, plan), jsonValue);
+        return
+      }
+
+      value = this.#merged(value, context, typeDescriptor)
+      try {
+        this.#fill(value, jsonValue, this.#elements(context, key, mode, typeDescriptor, Name, { property, instance }))
+      } catch (e) {
+        if (throwable) {
+          throw new TransformError(`Cannot transform elements of ${Name}.${property}`, {
+            code: 'INVALID_ELEMENTS',
+            target: Name,
+            path: this.#pointer(context, key),
+            expected: this.#expected(value, plan),
+            received: this.#typeOf(jsonValue),
+            cause: e
+          });
         }
-        return Reflect.set(instance, property, value);
       }
+      return Reflect.set(instance, property, value);
+    }
+
+    if (kind === 'date') {
+      const date = toDate(jsonValue, typeDescriptor.date ?? this.#date) ?? (mode === 'coerce' ? coerce(jsonValue, Date) : undefined)
+      if (!date) {
+        // if mode is not strict, leave initial value
+        if (throwable) this.#invalidDate(context, Name, key, jsonValue);
+        return
+      }
+      return Reflect.set(instance, property, date)
+    }
 
-      if (value instanceof Date) {
-        if (typeof jsonValue !== 'string') {
-          if (throwable) throw new TransformError(`Type of "${property}" in JSON is not "String" as ${Name} expect`);
-          return
+    if (typeof jsonValue !== 'object') {
+      if (throwable) this.#mismatch(context, Name, key, this.#expected(value, plan), jsonValue);
+      return
+    }
+    if (kind === 'plain') return Reflect.set(instance, property, jsonValue);
+    const nested = this.#nested(context, key, mode)
+    if (context.merge && current instanceof plan.Class!) {
+      nested.merge = context.merge
+      return Reflect.set(instance, property, this.#fromJSON(jsonValue, current.constructor as { new (): Object }, nested, current))
+    }
+    return Reflect.set(instance, property, this.#fromJSON(jsonValue, plan.Class!, nested));
+  }
+
+  /** Returns type expected by property, is computed only when it is reported */
+  #expected(value: unknown, plan: PropertyPlan) {
+    return value == null ? plan.Class!.name : this.#typeOf(value)
+  }
+
+  /** Returns collection, which is filled from json. In merge mode, collection is replaced by empty one,
+   * or by its copy if elements from json should be appended, so that failed merge doesn't change it
+   * */
+  #merged(value: any, context: Context, descriptor: TypeDescriptor) {
+    if (context.merge === undefined) return value
+    if ((descriptor.merge ?? context.merge) === 'replace') return new value.constructor()
+    return Array.isArray(value) ? (value.constructor as ArrayConstructor).from(value) : new value.constructor(value)
+  }
+
+  /** Checks constraints of transformed property, if its value exists in json. Constraints are ignored in not strict mode */
+  #validate(instance: Object, plan: PropertyPlan, json: Object, context: Context, Name: string) {
+    const { property, key, descriptor } = plan
+    const jsonValue = Reflect.get(json, key)
+    if (jsonValue == null || !this.#shouldThrow(context.strict, descriptor)) return
+    const violation = check(Reflect.get(instance, property), descriptor, { property, instance })
+    if (!violation) return
+    const { rule, expected, cause } = violation
+    const message = `Value of "${key}" in JSON violates constraint "${rule}" of ${Name}: expected ${expected}`
+    this.#fail(context, { code: 'CONSTRAINT_VIOLATION', target: Name, key, message, expected, rule, value: jsonValue, cause })
+  }
+
+  /** Checks if property is selected by options of fromJSON or toJSON */
+  #visible(property: string, descriptor: TypeDescriptor, { groups, exclude, include }: ViewOptions) {
+    if (include?.includes(property)) return true
+    if (descriptor.exclude || exclude?.includes(property)) return false
+    return !descriptor.groups || descriptor.groups.some(group => groups?.includes(group))
+  }
+
+  /** Returns name of property in json */
+  #key(property: string, descriptor: TypeDescriptor) {
+    return descriptor.key ?? toJSONName(property, this.naming)
+  }
+
+  /** Returns mode of property, descriptor takes precedence over mode of the call */
+  #mode(strict: StrictMode = true, descriptor?: TypeDescriptor): StrictMode {
+    const value = descriptor?.strict
+    return typeof value === 'boolean' || value === 'coerce' ? value : strict
+  }
+
+  #shouldThrow(strict: StrictMode = true, descriptor?: TypeDescriptor) {
+    return this.#mode(strict, descriptor) !== false
+  }
+
+  /** Creates params for transforming elements of collection, which is value of property with given key */
+  #elements(context: Context, key: string, strict: StrictMode, descriptor: TypeDescriptor, target: string, owner: ConverterContext): Elements {
+    const collection = this.#nested(context, key, strict)
+    const element = this.#nested(collection, undefined, strict)
+    return { plan: this.#collection(descriptor), throwable: strict !== false, context: collection, element, target, owner }
+  }
+
+  /** Returns plan of elements and keys declared by collection descriptor, descriptor is analyzed only once */
+  #collection(descriptor: TypeDescriptor): CollectionPlan {
+    let plan = this.#collections.get(descriptor)
+    if (!plan) {
+      plan = { elements: this.#element(descriptor.of, descriptor) }
+      if (descriptor.keys !== undefined) plan.keys = this.#element(descriptor.keys, descriptor)
+      this.#collections.set(descriptor, plan)
+    }
+    return plan
+  }
+
+  /** Selects transformation of elements of given Type, descriptor selects forms of binary data and dates */
+  #element(Type: TypeDescriptor['of'], descriptor: TypeDescriptor): ElementPlan {
+    if (this.#isDescriptor(Type)) {
+      const Nested = this.#nestedType(Type)
+      const plan: ElementPlan = this.#isCollection(Nested)
+        ? { kind: 'collection', Type: Nested, descriptor: Type, collection: this.#collection(Type) }
+        : this.#element(Nested, Type)
+      plan.constrained = isConstrained(Type)
+      return plan
+    }
+    if (!Type) return { kind: 'any', descriptor }
+    const converter = this.#converter(Type)
+    if (converter) return { kind: 'converter', Type, converter, descriptor }
+    if (this.#isUnion(Type)) return { kind: 'union', Type, descriptor }
+    if (Type === BigInt) return { kind: 'bigint', Type, descriptor }
+    const Binary = binaryType(Type)
+    if (Binary) return { kind: 'binary', Type: Binary as TypeConstructor, descriptor }
+    if (Type === Date) return { kind: 'date', Type, descriptor }
+    if (this.#primitives.has(Type)) return { kind: 'primitive', Type, descriptor }
+    return { kind: 'class', Type, descriptor }
+  }
+
+  /** Adds transformed elements of json array or object to collection */
+  #fill<C extends unknown[] | Set<unknown> | Map<unknown, unknown>>(collection: C, json: any, elements: Elements): C {
+    const { plan, element } = elements
+    if (collection instanceof Map) {
+      // Map of binary formats is read as array of entries
+      const source = json instanceof Map ? [...json] : json
+      if (!Array.isArray(source)) {
+        for (const key of Object.keys(source)) {
+          element.key = key
+          const name = plan.keys ? this.#toKey(key, plan.keys, elements) : key
+          const value = this.#toElement(source[key], plan.elements, elements)
+          if (name !== this.#skip && value !== this.#skip) collection.set(name, value)
         }
-        return Reflect.set(instance, property, new Date(jsonValue))
+        return collection
       }
+      // array of [key, value] entries, key and value are elements of entry
+      const entries: Elements = { ...elements, context: element, element: this.#nested(element, undefined, element.strict) }
+      for (let index = 0; index < source.length; index++) {
+        const entry = source[index]
+        element.key = index
+        if (!Array.isArray(entry) || entry.length !== 2) {
+          this.#reject(elements.throwable, () => this.#mismatch(elements.context, elements.target, index, 'Array', entry))
+          continue
+        }
+        entries.element.key = 0
+        const name = plan.keys ? this.#toElement(entry[0], plan.keys, entries) : entry[0]
+        entries.element.key = 1
+        const value = this.#toElement(entry[1], plan.elements, entries)
+        if (name !== this.#skip && value !== this.#skip) collection.set(name, value)
+      }
+      return collection
+    }
+    for (let key = 0; key < json.length; key++) {
+      element.key = key
+      const value = this.#toElement(json[key], plan.elements, elements)
+      if (value === this.#skip) continue
+      if (collection instanceof Set) collection.add(value)
+      else collection.push(value)
+    }
+    return collection
+  }
+
+  /** Transforms key of json object to key of Map, declared by TypeDescriptor.keys */
+  #toKey(input: string, plan: ElementPlan, elements: Elements) {
+    const { Type } = plan
+    if (Type === Number && input.trim() && !Number.isNaN(Number(input))) return Number(input)
+    if (Type === Boolean && (input === 'true' || input === 'false')) return input === 'true'
+    if (Type === Number || Type === Boolean) {
+      return this.#reject(elements.throwable, () => this.#mismatch(elements.context, elements.target, input, Type.name, input))
+    }
+    // dates written as epoch are numeric keys
+    const numeric = Type === Date && /^-?\d+(\.\d+)?$/.test(input)
+    return this.#toElement(numeric ? Number(input) : input, plan, elements)
+  }
 
-      if (typeof jsonValue !== 'object' && throwable) {
-        throw new TransformError(`Type of "${property}" in JSON is not "Object" as ${Name} expect`);
+  /** Creates collection declared by nested descriptor, and fills it with elements of json */
+  #toCollection(json: any, { Type, collection }: ElementPlan, { throwable, context, element, target, owner }: Elements) {
+    const Collection = Type as { new (): any }
+    const isMap = this.#extends(Collection, Map)
+    // single value is read as collection with one element in coerce mode
+    const input = context.strict === 'coerce' && !isMap && !Array.isArray(json) ? [json] : json
+    if (isMap ? input.constructor !== Object && !Array.isArray(input) && !(input instanceof Map) : !Array.isArray(input)) {
+      return this.#reject(throwable, () => this.#mismatch(context, target, element.key!, Collection.name, input))
+    }
+    // current element is the context of nested collection
+    const elements: Elements = { plan: collection!, throwable, context: element, element: this.#nested(element, undefined, element.strict), target, owner }
+    return this.#fill(new Collection(), input, elements)
+  }
+
+  /** Transforms element of json to element of collection, and checks constraints of nested descriptor in strict mode */
+  #toElement(input: any, plan: ElementPlan, elements: Elements): any {
+    const value = this.#convertElement(input, plan, elements)
+    if (!plan.constrained || !elements.throwable || value == null || value === this.#skip) return value
+    const violation = check(value, plan.descriptor, elements.owner)
+    if (!violation) return value
+    const { context, element, target } = elements
+    const { rule, expected, cause } = violation
+    const message = `Value of "${element.key}" in JSON violates constraint "${rule}" of ${target}: expected ${expected}`
+    return this.#reject(true, () => this.#fail(context, { code: 'CONSTRAINT_VIOLATION', target, key: element.key, message, expected, rule, value: input, cause }))
+  }
+
+  /** Converts element of json to type declared by plan */
+  #convertElement(input: any, plan: ElementPlan, elements: Elements): any {
+    const { kind, Type, descriptor } = plan
+    const { throwable, context, element, target } = elements
+    if (kind === 'any') return input
+    if (kind === 'collection') return input == null ? input : this.#toCollection(input, plan, elements)
+    if (kind === 'converter' && input != null) {
+      try {
+        return plan.converter!.deserialize(input)
+      } catch (e) {
+        const message = `Cannot deserialize "${element.key}" in ${target}: ${e instanceof Error ? e.message : e}`
+        return this.#reject(throwable, () => this.#fail(context, { code: 'CONVERTER_FAILED', target, key: element.key, message, expected: (Type as Function).name, value: input, cause: e }))
       }
-      const proto = Reflect.getPrototypeOf(value as Object)
-      // Consider that initial value is an object without prototype
-      if (!proto.constructor) return Reflect.set(instance, property, jsonValue);
-      return Reflect.set(instance, property, this.fromJSON(jsonValue, proto.constructor as { new (): Object }, throwable));
-    })
+    }
+    if (kind === 'bigint') {
+      const bigint = this.#toBigInt(input)
+      if (bigint !== undefined) return bigint
+      return this.#reject(throwable, () => this.#mismatch(context, target, element.key!, 'BigInt', input))
+    }
+    if (kind === 'binary') {
+      const binary = decode(input, Type as Function, descriptor.binary ?? context.binary)
+      if (binary) return binary
+      return this.#reject(throwable, () => this.#mismatch(context, target, element.key!, (Type as Function).name, input))
+    }
+    if (kind === 'date') {
+      const date = toDate(input, descriptor.date ?? this.#date) ?? (context.strict === 'coerce' ? coerce(input, Date) : undefined)
+      if (date) return date
+      return this.#reject(throwable, () => this.#invalidDate(context, target, element.key!, input))
+    }
+    // elements of other types are converted in coerce mode, otherwise they are rejected the same way in every strict mode
+    if (kind === 'primitive' && input != null && Object(input).constructor !== Type) {
+      const coerced = context.strict === 'coerce' ? coerce(input, Type) : undefined
+      if (coerced !== undefined) return coerced
+      return this.#reject(throwable, () => this.#mismatch(context, target, element.key!, (Type as Function).name, input))
+    }
+    if (Object(input) !== input) return input
+    if (kind === 'union') {
+      const union = Type as Union
+      const Class = this.#resolve(union, input, element, target, throwable)
+      // unknown discriminator is reported by #resolve in strict mode, and the element is skipped in any mode
+      return Class ? this.#fromJSON(input, Class, this.#nested(context, element.key, element.strict, union.discriminator)) : this.#skip
+    }
+    return this.#fromJSON(input, Type as { new (): Object }, element)
+  }
 
-    return instance
+  /** Marks collection element, which can't be transformed, so that it is skipped */
+  readonly #skip = Symbol('skip')
+
+  /** Reports element, which can't be transformed, if mode is strict. The element is skipped in any mode,
+   * so collection has the same elements with and without `collect` mode
+   * */
+  #reject(throwable: boolean, report: () => void): symbol {
+    if (throwable) report()
+    return this.#skip
+  }
+
+  /** Creates context for transformation of nested object or collection elements */
+  #nested(context: Context, key: string | number | undefined, strict: StrictMode, discriminator?: string): Context {
+    const { base, binary, view, excess, issues, refs, commits } = context
+    // listed explicitly, because spread of context is much slower. Nested objects and elements are created from scratch, even in merge mode
+    return { strict, base, parent: context, key, binary, view, excess, issues, refs, merge: undefined, discriminator, commits }
+  }
+
+  /** Throws TransformError, or saves the issue if fromJSON was called in `collect` mode */
+  #fail(context: Context, { key, value, cause, ...details }: Failure) {
+    const path = key === undefined ? this.#path(context) : this.#pointer(context, key)
+    const issue: TransformIssue = { ...details, path, received: this.#typeOf(value) }
+    if (!context.issues) throw new TransformError(issue.message, { ...issue, cause })
+    context.issues.push(issue)
+  }
+
+  #missing(context: Context, target: string, key: string, initial: unknown) {
+    const message = `Property "${key}" is missed in JSON but required in ${target}`
+    const expected = initial == null ? 'unknown' : this.#typeOf(initial)
+    this.#fail(context, { code: 'MISSING_PROPERTY', target, key, message, expected, value: undefined })
+  }
+
+  #mismatch(context: Context, target: string, key: string | number, expected: string, value: unknown) {
+    const message = `Type of "${key}" in JSON is "${this.#typeOf(value)}", but ${target} expects "${expected}"`
+    this.#fail(context, { code: 'TYPE_MISMATCH', target, key, message, expected, value })
   }
 
-  static #shouldThrow(strict = true, descriptor?: TypeDescriptor) {
-    const value = Reflect.get(descriptor || {}, 'strict')
-    return typeof value === 'boolean' ? value : strict
+  #invalidDate(context: Context, target: string, key: string | number, value: unknown) {
+    const message = `Value of "${key}" in JSON is not a valid date, as ${target} expects`
+    this.#fail(context, { code: 'INVALID_DATE', target, key, message, expected: 'Date', value })
   }
 
-  static #toElementType({ Type, throwable, input }: ToCollectionElement) {
-    if (!Type) {
-      return input
-    } else if (Object(input) !== input) {
-      return input
-    } else if (Type === Date) {
-      if (typeof input === 'string') return new Date(input)
-      throw new TransformError(`Type of value in JSON is not "String" as ${Type?.name || ''} expect`);
-    } else {
-      return this.fromJSON(input, Type, throwable)
+  /** Returns JSON pointer to currently transformed object, is computed only when it is reported */
+  #path(context: Context): string {
+    return context.parent ? this.#pointer(context.parent, context.key!) : context.base
+  }
+
+  /** Returns JSON pointer to the value with given key in currently transformed object */
+  #pointer(context: Context, key: string | number) {
+    return `${this.#path(context)}/${this.#escape(key)}`
+  }
+
+  /** Escapes JSON pointer reference token, see RFC 6901 */
+  #escape(key: string | number) {
+    return String(key).replace(/~/g, '~0').replace(/\//g, '~1')
+  }
+
+  /** Accepts decimal strings and safe integers */
+  #toBigInt(value: unknown) {
+    if (typeof value === 'bigint') return value
+    if (typeof value === 'string' && /^-?\d+$/.test(value)) return BigInt(value)
+    if (Number.isSafeInteger(value)) return BigInt(value as number)
+    return undefined
+  }
+
+  #isUnion(type: TypeDescriptor['of']): type is Union {
+    return type != null && typeof type === 'object' && Object.hasOwn(type, 'mapping')
+  }
+
+  #isDescriptor(type: TypeDescriptor['of']): type is TypeDescriptor {
+    return type != null && typeof type === 'object' && !Object.hasOwn(type, 'mapping')
+  }
+
+  /** Returns type of nested descriptor, which is Array if only type of elements is declared */
+  #nestedType({ type, of }: TypeDescriptor): TypeDescriptor['type'] {
+    return type === undefined && of !== undefined ? Array : type
+  }
+
+  #isCollection(Type: TypeDescriptor['of']): Type is TypeConstructor {
+    return typeof Type === 'function' && [Array, Set, Map].some(Base => this.#extends(Type, Base))
+  }
+
+  /** Returns class declared in Union for value of discriminator property in json */
+  #resolve(union: Union, json: Object, context: Context, target: string, throwable: boolean) {
+    const { discriminator, mapping } = union
+    const value = Reflect.get(json, discriminator)
+    if (Object.hasOwn(mapping, value)) return mapping[value]
+    if (throwable) {
+      const message = `Unknown value "${value}" of discriminator "${discriminator}" in JSON, ${target} expects one of: ${Object.keys(mapping).join(', ')}`
+      this.#fail(context, { code: 'UNKNOWN_DISCRIMINATOR', target, key: discriminator, message, expected: 'String', value })
     }
+    return undefined
   }
 
-  static toJSON(instance: Object): JSON | Object {
-    const result = {}
-    Reflect.ownKeys(instance).forEach(property => {
-      const value = Reflect.get(instance, property)
+  /** Returns readable type name of value */
+  #typeOf(value: unknown): string {
+    if (value === null) return 'null'
+    if (value === undefined) return 'undefined'
+    if (Array.isArray(value)) return 'Array'
+    return Object(value).constructor?.name || 'Object'
+  }
+
+  toJSON(instance: Object, options: ToJSONOptions = {}): JSON | Object {
+    return JSON.parse(JSON.stringify(this.#toJSON(instance, this.#serializeContext(options))))
+  }
+
+  /** Writes instance as CBOR (RFC 8949), with the same names and selected properties as toJSON. <br />
+   * Dates, BigInt, binary data and Map with keys of any type are written natively, so options `bigint` and `binary` are ignored.
+   * */
+  toBinary(instance: Object, options: ToJSONOptions = {}): Uint8Array {
+    return toCBOR(this.#toJSON(instance, { ...this.#serializeContext(options), native: true }))
+  }
+
+  /** Creates instance of class from CBOR written by toBinary, values are checked the same way as in fromJSON. <br />
+   * Throws TransformError with code INVALID_BINARY, if bytes are not valid CBOR or are nested too deep.
+   * */
+  fromBinary<T extends Object>(bytes: Uint8Array | ArrayBuffer, ctor: { new (...args: any[]): T }, strict: StrictMode | FromJSONOptions = {}): T {
+    let json: unknown
+    try {
+      json = fromCBOR(bytes instanceof ArrayBuffer ? new Uint8Array(bytes) : bytes)
+    } catch (e) {
+      if (!(e instanceof SyntaxError)) throw e
+      throw new TransformError(`Invalid CBOR: ${e.message}`, { code: 'INVALID_BINARY', target: ctor.name, path: '', cause: e })
+    }
+    return this.fromJSON(json as Object, ctor, strict)
+  }
+
+  #serializeContext(options: ToJSONOptions): SerializeContext {
+    const context: SerializeContext = {
+      cycles: options.cycles ?? 'throw',
+      bigint: options.bigint ?? 'string',
+      binary: options.binary ?? 'base64',
+      view: options,
+      getters: options.getters ?? false,
+      path: '',
+      ancestors: new Set()
+    }
+    if (context.cycles === 'reference') context.refs = new Map()
+    return context
+  }
+
+  #toJSON(instance: Object, context: SerializeContext): Object | symbol {
+    let result = {}
+    const ctor = Reflect.getPrototypeOf(instance)?.constructor
+    const plan = ctor && this.#plans.get(ctor)
+    const { refs, ancestors } = context
+    if (refs) {
+      const known = refs.get(instance)
+      if (known) {
+        Reflect.set(known.plain, '$id', known.id)
+        return { $ref: known.id }
+      }
+      refs.set(instance, { plain: result, id: String(refs.size + 1) })
+    } else if (ancestors.has(instance)) {
+      if (context.cycles === 'drop') return this.#drop
+      const message = `Circular reference to ${ctor?.name || 'Object'} at "${context.path}"`
+      throw new TransformError(message, { code: 'CIRCULAR_REFERENCE', target: ctor?.name || 'Object', path: context.path })
+    }
+    ancestors.add(instance)
+    const Name = ctor?.name || 'Object'
+    if (typeof Reflect.get(instance, 'beforeSerialize') === 'function') this.#hook(instance, 'beforeSerialize', undefined, Name, context)
+
+    // names of properties are mapped only for class instances, plain objects are used "as is"
+    const types: Schema<Object> | null = plan?.types ?? (ctor && ctor !== Object ? this.#types(ctor) : null)
+    const names = Reflect.ownKeys(instance)
+    if (context.getters && ctor && ctor !== Object) names.push(...this.#getters(ctor, names))
+    let captured: unknown
+    names.forEach(name => {
+      if (typeof name === 'symbol') {
+        return
+      }
+      const known = plan?.byName.get(name)
+      const typeDescriptor: TypeDescriptor = known?.descriptor ?? ((types && Reflect.get(types, name)) || this.#object)
+      if (!this.#visible(name, typeDescriptor, context.view)) {
+        return
+      }
+      const value = Reflect.get(instance, name)
       if (typeof value === 'function') {
         return
       }
-      if (typeof property === 'symbol') {
+      if (typeDescriptor.capture) {
+        captured = value
         return
       }
+      const property = known?.key ?? (types ? this.#key(name, typeDescriptor) : name)
+      if (typeDescriptor.serialize) {
+        return Reflect.set(result, property, typeDescriptor.serialize(value, { property: name, instance }))
+      }
+      if (typeof value === 'bigint') {
+        return Reflect.set(result, property, context.native ? value : this.#fromBigInt(value, context, `${context.path}/${this.#escape(property)}`))
+      }
       if (Object(value) !== value) {
         return Reflect.set(result, property, value)
       }
-      if (Array.isArray(value) || value instanceof Set) {
-        const array: any[] = []
-        value.forEach((item: any) => array.push(this.#toPlain(item)))
-        return Reflect.set(result, property, array)
+      const converter = this.#converter(value.constructor)
+      if (converter) {
+        return Reflect.set(result, property, converter.serialize(value))
       }
-
-      if (value instanceof Map) {
-        const object = {}
-        value.forEach((item, key) => Reflect.set(object, key, this.#toPlain(item)))
-        return Reflect.set(result, property, object)
+      if (isBinary(value)) {
+        return Reflect.set(result, property, context.native ? value : encode(value, typeDescriptor.binary ?? context.binary))
+      }
+      const nested = { ...context, path: `${context.path}/${this.#escape(property)}` }
+      if (Array.isArray(value) || value instanceof Set || value instanceof Map) {
+        return Reflect.set(result, property, this.#fromCollection(value, nested, typeDescriptor))
       }
 
       if (value instanceof Date) {
-        return Reflect.set(result, property, value)
+        return Reflect.set(result, property, context.native ? value : fromDate(value, typeDescriptor.date ?? this.#date))
+      }
+      const plain = this.#toPlain(value, typeDescriptor.type, nested)
+      if (plain !== this.#drop) Reflect.set(result, property, plain)
+    })
+    ancestors.delete(instance)
+    // properties captured by fromJSON are written back, unless class declares the same properties
+    if (captured && typeof captured === 'object') {
+      Object.entries(captured).forEach(([key, value]) => {
+        if (!Object.hasOwn(result, key)) Object.defineProperty(result, key, { value, enumerable: true, writable: true, configurable: true })
+      })
+    }
+    if (typeof Reflect.get(instance, 'afterSerialize') === 'function') {
+      const replaced = this.#hook(instance, 'afterSerialize', result, Name, context) as Object | undefined
+      if (replaced != null && replaced !== result) {
+        // `$id` could be written while nested objects were serialized
+        if (Object.hasOwn(result, '$id')) Reflect.set(replaced, '$id', Reflect.get(result, '$id'))
+        if (refs) refs.get(instance)!.plain = replaced
+        result = replaced
       }
-      return Reflect.set(result, property, this.toJSON(value))
+    }
+    return result
+  }
+
+  /** Returns names of getters declared in class and its parents, except names of own properties */
+  #getters(ctor: Function, own: Array<string | symbol>) {
+    const names = new Set<string>()
+    for (let proto = ctor.prototype; proto && proto !== Object.prototype; proto = Reflect.getPrototypeOf(proto)) {
+      Object.entries(Object.getOwnPropertyDescriptors(proto)).forEach(([name, descriptor]) => {
+        if (descriptor.get && !own.includes(name)) names.add(name)
+      })
+    }
+    return [...names]
+  }
+
+  #fromBigInt(value: bigint, context: SerializeContext, path: string) {
+    if (context.bigint === 'string') return value.toString()
+    const number = Number(value)
+    if (Number.isSafeInteger(number)) return number
+    const message = `BigInt ${value} at "${path}" can't be written as number without loss of precision`
+    throw new TransformError(message, { code: 'UNSAFE_INTEGER', target: 'BigInt', path, expected: 'Number', received: 'BigInt' })
+  }
+
+  /** Marks repeated reference, which should be dropped from json */
+  readonly #drop = Symbol('drop')
+
+  /** Converts Array and Set to array, Map to object. Types of elements are declared by descriptor */
+  #fromCollection(value: unknown[] | Set<unknown> | Map<unknown, unknown>, context: SerializeContext, descriptor: TypeDescriptor) {
+    const Type = descriptor.of
+    if (value instanceof Map && context.native) {
+      // keys of any type are written natively
+      const map = new Map()
+      let index = 0
+      value.forEach((item, key) => {
+        const path = `${context.path}/${index++}`
+        const name = this.#toPlain(key, descriptor.keys, { ...context, path: `${path}/0` }, descriptor)
+        const plain = this.#toPlain(item, Type, { ...context, path: `${path}/1` }, descriptor)
+        if (name !== this.#drop && plain !== this.#drop) map.set(name, plain)
+      })
+      return map
+    }
+    if (value instanceof Map && descriptor.entries) {
+      const entries: unknown[] = []
+      let index = 0
+      value.forEach((item, key) => {
+        const path = `${context.path}/${index++}`
+        const name = this.#toPlain(key, descriptor.keys, { ...context, path: `${path}/0` }, descriptor)
+        const plain = this.#toPlain(item, Type, { ...context, path: `${path}/1` }, descriptor)
+        if (name !== this.#drop && plain !== this.#drop) entries.push([name, plain])
+      })
+      return entries
+    }
+    if (value instanceof Map) {
+      const object = {}
+      value.forEach((item, key) => {
+        const name = this.#fromKey(key, context, descriptor)
+        const plain = this.#toPlain(item, Type, { ...context, path: `${context.path}/${this.#escape(name)}` }, descriptor)
+        if (plain !== this.#drop) Reflect.set(object, name, plain)
+      })
+      return object
+    }
+    const array: unknown[] = []
+    let index = 0
+    value.forEach(item => {
+      const plain = this.#toPlain(item, Type, { ...context, path: `${context.path}/${index++}` }, descriptor)
+      if (plain !== this.#drop) array.push(plain)
     })
-    return JSON.parse(JSON.stringify(result))
+    return array
   }
 
-  static #toPlain = (item: any) => (Object(item) !== item ? item : this.toJSON(item))
+  /** Converts key of Map to key of json object */
+  #fromKey(key: unknown, context: SerializeContext, descriptor: TypeDescriptor): string {
+    if (typeof key === 'string') return key
+    const name = this.#toPlain(key, descriptor.keys, context, descriptor)
+    if (Object(name) !== name && name !== null) return String(name)
+    const message = `Key of Map at "${context.path}" can't be written as key of json object, declare TypeDescriptor.entries to write Map as array of entries`
+    throw new TransformError(message, { code: 'INVALID_KEY', target: 'Map', path: context.path, received: this.#typeOf(key) })
+  }
+
+  /** Converts collection element or nested object, descriptor selects forms of binary data and dates */
+  #toPlain(item: any, Type: TypeDescriptor['of'], context: SerializeContext, descriptor: TypeDescriptor = this.#object): any {
+    if (this.#isDescriptor(Type)) return this.#toPlain(item, this.#nestedType(Type), context, Type)
+    if (typeof item === 'bigint') return context.native ? item : this.#fromBigInt(item, context, context.path)
+    if (Object(item) !== item) return item
+    const converter = this.#converter(item.constructor)
+    if (converter) return converter.serialize(item)
+    if (context.native && (isBinary(item) || item instanceof Date)) return item
+    if (isBinary(item)) return encode(item, descriptor.binary ?? context.binary)
+    if (item instanceof Date) return fromDate(item, descriptor.date ?? this.#date)
+    if (Array.isArray(item) || item instanceof Set || item instanceof Map) return this.#fromCollection(item, context, descriptor)
+    const plain = this.#toJSON(item, context)
+    if (typeof plain === 'symbol' || !this.#isUnion(Type) || Object.hasOwn(plain, '$ref')) return plain
+    // writes discriminator, if class doesn't declare it as property
+    const { discriminator, mapping } = Type
+    if (!Object.hasOwn(plain, discriminator)) {
+      const value = Object.keys(mapping).find(key => mapping[key] === item.constructor)
+      if (value !== undefined) Reflect.set(plain, discriminator, value)
+    }
+    return plain
+  }
 }
@@ -0,0 +1,162 @@
+/** How binary data is written in json: <br />
+ * - `base64` and `base64url` - string, see RFC 4648; <br />
+ * - `hex` - string with two hex digits per byte; <br />
+ * - `array` - array of numbers, elements of typed array or bytes of ArrayBuffer and DataView.
+ * */
+export type BinaryEncoding = 'base64' | 'base64url' | 'hex' | 'array'
+
+/** ArrayBuffer, DataView and typed arrays */
+export type Binary = ArrayBuffer | ArrayBufferView
+
+/** Constructors of binary data */
+export const binaries = new Set<Function>([
+  ArrayBuffer,
+  DataView,
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+])
+
+/** Ranges of elements of integer typed arrays, bytes of ArrayBuffer and DataView are checked as Uint8Array */
+const ranges = new Map<Function, [number | bigint, number | bigint]>([
+  [ArrayBuffer, [0, 255]],
+  [DataView, [0, 255]],
+  [Int8Array, [-128, 127]],
+  [Uint8Array, [0, 255]],
+  [Uint8ClampedArray, [0, 255]],
+  [Int16Array, [-32768, 32767]],
+  [Uint16Array, [0, 65535]],
+  [Int32Array, [-2147483648, 2147483647]],
+  [Uint32Array, [0, 4294967295]],
+  [BigInt64Array, [-(2n ** 63n), 2n ** 63n - 1n]],
+  [BigUint64Array, [0n, 2n ** 64n - 1n]],
+])
+
+const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+const codes = new Map<string, number>([...alphabet].map((char, code) => [char, code]))
+codes.set('-', 62).set('_', 63)
+
+export function isBinary(value: unknown): value is Binary {
+  return value instanceof ArrayBuffer || ArrayBuffer.isView(value)
+}
+
+/** Returns built in binary constructor, which Type is or extends */
+export function binaryType(Type: unknown): Function | undefined {
+  // walks the chain of parent classes, instead of checking every constructor
+  for (let ctor = Type; typeof ctor === 'function'; ctor = Reflect.getPrototypeOf(ctor)) {
+    if (binaries.has(ctor)) return ctor
+  }
+  return undefined
+}
+
+/** Returns bytes of binary data without copying */
+export function bytesOf(value: Binary) {
+  return value instanceof ArrayBuffer ? new Uint8Array(value) : new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+}
+
+/** Returns json representation of binary data */
+export function encode(value: Binary, encoding: BinaryEncoding): string | Array<number | string> {
+  if (encoding === 'array') {
+    if (value instanceof ArrayBuffer || value instanceof DataView) return Array.from(bytesOf(value))
+    // BigInt64Array and BigUint64Array elements are written as decimal strings
+    return Array.from(value as unknown as ArrayLike<number | bigint>, element => (typeof element === 'bigint' ? element.toString() : element))
+  }
+  const bytes = bytesOf(value)
+  if (encoding === 'hex') return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')
+  let text = ''
+  for (let index = 0; index < bytes.length; index += 3) {
+    const chunk = bytes[index] * 2 ** 16 + (bytes[index + 1] ?? 0) * 2 ** 8 + (bytes[index + 2] ?? 0)
+    const length = Math.min(bytes.length - index, 3)
+    for (let char = 0; char <= length; char++) text += alphabet[Math.floor(chunk / 2 ** (18 - char * 6)) % 64]
+  }
+  if (encoding === 'base64url') return text.replace(/\+/g, '-').replace(/\//g, '_')
+  return text.padEnd(Math.ceil(text.length / 4) * 4, '=')
+}
+
+/** Returns bytes of string in hex, base64 or base64url, or undefined if string is not valid */
+function decodeText(text: string, encoding: BinaryEncoding) {
+  if (encoding === 'hex') {
+    if (text.length % 2 || /[^0-9a-f]/i.test(text)) return undefined
+    const bytes = new Uint8Array(text.length / 2)
+    for (let index = 0; index < bytes.length; index++) bytes[index] = parseInt(text.slice(index * 2, index * 2 + 2), 16)
+    return bytes
+  }
+  // both alphabets are accepted, padding is optional
+  const chars = text.replace(/[=]+$/, '')
+  if (chars.length % 4 === 1) return undefined
+  const bytes = new Uint8Array(Math.floor((chars.length * 3) / 4))
+  // every group of 4 chars gives 3 bytes, the last group may be shorter
+  for (let index = 0, offset = 0; index < chars.length; index += 4) {
+    const group = chars.slice(index, index + 4)
+    let chunk = 0
+    for (let char = 0; char < 4; char++) {
+      const code = char < group.length ? codes.get(group[char]) : 0
+      if (code === undefined) return undefined
+      chunk = chunk * 64 + code
+    }
+    for (let byte = 0; byte < group.length - 1; byte++) bytes[offset++] = Math.floor(chunk / 2 ** (16 - byte * 8)) % 256
+  }
+  return bytes
+}
+
+/** Creates binary data of given type from its json representation, returns undefined if json is not valid. <br />
+ * Binary data, which is read from binary formats, is copied into given type.
+ * */
+export function decode(json: unknown, Type: Function, encoding: BinaryEncoding): Binary | undefined {
+  if (isBinary(json) && binaryType(json.constructor) === Type) return copy(json)
+  const isBigInt = Type === BigInt64Array || Type === BigUint64Array
+  if (Array.isArray(json)) {
+    // elements, which don't fit into elements of Type, are rejected instead of being truncated
+    const range = ranges.get(Type)
+    const fits = (element: number | bigint) => !range || (element >= range[0] && element <= range[1])
+    if (isBigInt) {
+      if (!json.every(element => Number.isSafeInteger(element) || (typeof element === 'string' && /^-?\d+$/.test(element)))) return undefined
+      const elements = json.map(element => BigInt(element))
+      if (!elements.every(fits)) return undefined
+      return (Type as BigInt64ArrayConstructor).from(elements)
+    }
+    if (!json.every(element => typeof element === 'number' && (!range || Number.isInteger(element)) && fits(element))) return undefined
+    if (Type === ArrayBuffer || Type === DataView) {
+      const { buffer } = Uint8Array.from(json)
+      return Type === DataView ? new DataView(buffer) : buffer
+    }
+    return (Type as Float64ArrayConstructor).from(json)
+  }
+  if (isBinary(json)) return fromBytes(bytesOf(json).slice(), Type)
+  if (typeof json !== 'string' || encoding === 'array') return undefined
+  const bytes = decodeText(json, encoding)
+  return bytes && fromBytes(bytes, Type)
+}
+
+/** Creates binary data of given type with bytes, returns undefined if length of bytes doesn't match size of elements */
+function fromBytes(bytes: Uint8Array, Type: Function): Binary | undefined {
+  // bytes are always copied into their own ArrayBuffer, never into SharedArrayBuffer
+  const buffer = bytes.buffer as ArrayBuffer
+  if (Type === ArrayBuffer) return buffer
+  if (Type === DataView) return new DataView(buffer)
+  const size = (Type as Float64ArrayConstructor).BYTES_PER_ELEMENT
+  if (bytes.byteLength % size) return undefined
+  return new (Type as Float64ArrayConstructor)(buffer)
+}
+
+/** Returns copy of binary data with the same class and its own buffer */
+export function copy(value: Binary): Binary {
+  if (value instanceof ArrayBuffer) return value.slice(0)
+  const { buffer } = bytesOf(value).slice()
+  return Reflect.construct(binaryType(value.constructor)!, [buffer], value.constructor)
+}
+
+/** Compares bytes of binary data */
+export function equalBytes(a: Binary, b: Binary): boolean {
+  const left = bytesOf(a)
+  const right = bytesOf(b)
+  return left.length === right.length && left.every((byte, index) => byte === right[index])
+}
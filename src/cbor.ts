@@ -0,0 +1,359 @@
+import { Binary, binaryType, bytesOf, isBinary } from './binary.js'
+
+/** Typed arrays by their tags, see RFC 8746. Elements are written in little endian order */
+const typedArrays = new Map<number, Function>([
+  [64, Uint8Array],
+  [68, Uint8ClampedArray],
+  [69, Uint16Array],
+  [70, Uint32Array],
+  [71, BigUint64Array],
+  [72, Int8Array],
+  [77, Int16Array],
+  [78, Int32Array],
+  [79, BigInt64Array],
+  [85, Float32Array],
+  [86, Float64Array]
+])
+const tags = new Map([...typedArrays].map(([tag, Type]) => [Type, tag]))
+const littleEndian = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder('utf-8', { fatal: true })
+/** Deeper data is rejected, instead of overflowing the call stack */
+const maxDepth = 512
+
+/** Growable buffer for encoded bytes */
+class Writer {
+  bytes = new Uint8Array(256)
+  view = new DataView(this.bytes.buffer)
+  length = 0
+
+  /** Returns offset of `size` reserved bytes */
+  reserve(size: number) {
+    if (this.length + size > this.bytes.length) {
+      const bytes = new Uint8Array(Math.max(this.bytes.length * 2, this.length + size))
+      bytes.set(this.bytes)
+      this.bytes = bytes
+      this.view = new DataView(bytes.buffer)
+    }
+    const offset = this.length
+    this.length += size
+    return offset
+  }
+
+  /** Writes major type with argument in the shortest form */
+  head(major: number, argument: number | bigint) {
+    const value = BigInt(argument)
+    if (value < 24n) {
+      this.bytes[this.reserve(1)] = major * 32 + Number(value)
+    } else if (value < 0x100n) {
+      const offset = this.reserve(2)
+      this.bytes[offset] = major * 32 + 24
+      this.bytes[offset + 1] = Number(value)
+    } else if (value < 0x10000n) {
+      const offset = this.reserve(3)
+      this.bytes[offset] = major * 32 + 25
+      this.view.setUint16(offset + 1, Number(value))
+    } else if (value < 0x100000000n) {
+      const offset = this.reserve(5)
+      this.bytes[offset] = major * 32 + 26
+      this.view.setUint32(offset + 1, Number(value))
+    } else {
+      const offset = this.reserve(9)
+      this.bytes[offset] = major * 32 + 27
+      this.view.setBigUint64(offset + 1, value)
+    }
+  }
+
+  write(bytes: Uint8Array) {
+    this.bytes.set(bytes, this.reserve(bytes.length))
+  }
+}
+
+/** Reverses order of bytes in every element of given size */
+function swap(bytes: Uint8Array, size: number) {
+  return bytes.map((_, index) => bytes[index - (index % size) + size - 1 - (index % size)])
+}
+
+function writeNumber(writer: Writer, value: number) {
+  if (Number.isSafeInteger(value) && !Object.is(value, -0)) {
+    writer.head(value < 0 ? 1 : 0, value < 0 ? -1 - value : value)
+  } else if (Math.fround(value) === value || Number.isNaN(value)) {
+    const offset = writer.reserve(5)
+    writer.bytes[offset] = 0xfa
+    writer.view.setFloat32(offset + 1, value)
+  } else {
+    const offset = writer.reserve(9)
+    writer.bytes[offset] = 0xfb
+    writer.view.setFloat64(offset + 1, value)
+  }
+}
+
+/** BigInt is written as bignum, see RFC 8949 section 3.4.3 */
+function writeBigInt(writer: Writer, value: bigint) {
+  const negative = value < 0n
+  let rest = negative ? -1n - value : value
+  const bytes: number[] = []
+  while (rest > 0n) {
+    bytes.unshift(Number(rest % 256n))
+    rest /= 256n
+  }
+  writer.head(6, negative ? 3 : 2)
+  writer.head(2, bytes.length)
+  writer.write(Uint8Array.from(bytes))
+}
+
+function writeBinary(writer: Writer, value: Binary) {
+  const Type = binaryType(value.constructor)
+  const tag = tags.get(Type!)
+  const bytes = bytesOf(value)
+  // ArrayBuffer, DataView and Uint8Array are written as byte strings
+  if (tag === undefined || Type === Uint8Array) {
+    writer.head(2, bytes.length)
+    return writer.write(bytes)
+  }
+  writer.head(6, tag)
+  writer.head(2, bytes.length)
+  // elements are written in little endian order on big endian platforms too
+  return writer.write(littleEndian ? bytes : swap(bytes, (Type as Float64ArrayConstructor).BYTES_PER_ELEMENT))
+}
+
+function writeValue(writer: Writer, value: unknown) {
+  if (value === null) return writer.write(Uint8Array.of(0xf6))
+  if (value === undefined) return writer.write(Uint8Array.of(0xf7))
+  if (typeof value === 'boolean') return writer.write(Uint8Array.of(value ? 0xf5 : 0xf4))
+  if (typeof value === 'number') return writeNumber(writer, value)
+  if (typeof value === 'bigint') return writeBigInt(writer, value)
+  if (typeof value === 'string') {
+    const bytes = encoder.encode(value)
+    writer.head(3, bytes.length)
+    return writer.write(bytes)
+  }
+  if (typeof value !== 'object') return writer.write(Uint8Array.of(0xf7))
+  if (value instanceof Date) {
+    const time = value.getTime()
+    if (Number.isNaN(time)) return writer.write(Uint8Array.of(0xf6))
+    // epoch time in seconds, see RFC 8949 section 3.4.2
+    writer.head(6, 1)
+    return writeNumber(writer, time / 1000)
+  }
+  if (isBinary(value)) return writeBinary(writer, value)
+  if (Array.isArray(value) || value instanceof Set) {
+    writer.head(4, Array.isArray(value) ? value.length : value.size)
+    return value.forEach(item => writeValue(writer, item))
+  }
+  if (value instanceof Map) {
+    writer.head(5, value.size)
+    return value.forEach((item, key) => {
+      writeValue(writer, key)
+      writeValue(writer, item)
+    })
+  }
+  // objects are written as JSON.stringify writes them
+  const toJSON = Reflect.get(value, 'toJSON')
+  if (typeof toJSON === 'function') return writeValue(writer, toJSON.call(value))
+  const entries = Object.entries(value).filter(([, item]) => item !== undefined && typeof item !== 'function' && typeof item !== 'symbol')
+  writer.head(5, entries.length)
+  return entries.forEach(([key, item]) => {
+    writeValue(writer, key)
+    writeValue(writer, item)
+  })
+}
+
+/** Encodes value as CBOR, see RFC 8949. <br />
+ * Dates are written as epoch time, BigInt as bignum, typed arrays with tags of RFC 8746, Map with keys of any type.
+ * Other objects are written as maps with string keys, using their toJSON methods like JSON.stringify.
+ * */
+export function encode(value: unknown): Uint8Array {
+  const writer = new Writer()
+  writeValue(writer, value)
+  return writer.bytes.slice(0, writer.length)
+}
+
+/** Reads CBOR data item by item */
+class Reader {
+  offset = 0
+  /** Count of arrays, maps and tags, which contain the item being read */
+  depth = 0
+  readonly view: DataView
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  /** Returns offset of `size` bytes, throws if data ends before them */
+  take(size: number) {
+    if (this.offset + size > this.bytes.length) throw new SyntaxError(`Unexpected end of CBOR data at ${this.offset}`)
+    const offset = this.offset
+    this.offset += size
+    return offset
+  }
+
+  /** Reads argument of data item, returns undefined for indefinite length */
+  argument(info: number): number | bigint | undefined {
+    if (info < 24) return info
+    if (info === 24) return this.bytes[this.take(1)]
+    if (info === 25) return this.view.getUint16(this.take(2))
+    if (info === 26) return this.view.getUint32(this.take(4))
+    if (info === 27) {
+      const value = this.view.getBigUint64(this.take(8))
+      return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value
+    }
+    if (info === 31) return undefined
+    throw new SyntaxError(`Invalid additional information ${info} in CBOR data at ${this.offset - 1}`)
+  }
+
+  /** Reads length of string or collection */
+  length(info: number) {
+    const length = this.argument(info)
+    if (typeof length === 'bigint') throw new SyntaxError(`Too long CBOR item at ${this.offset}`)
+    return length
+  }
+
+  /** Checks and skips `break` of indefinite length item */
+  end() {
+    if (this.bytes[this.offset] !== 0xff) return false
+    this.offset++
+    return true
+  }
+
+  /** Reads chunks of indefinite length string */
+  chunks(major: number) {
+    const chunks: Uint8Array[] = []
+    while (!this.end()) {
+      const initial = this.bytes[this.take(1)]
+      if (Math.floor(initial / 32) !== major) throw new SyntaxError(`Invalid chunk of CBOR string at ${this.offset - 1}`)
+      const length = this.length(initial % 32)
+      if (length === undefined) throw new SyntaxError(`Nested indefinite CBOR string at ${this.offset - 1}`)
+      chunks.push(this.bytes.subarray(this.take(length), this.offset))
+    }
+    const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0))
+    let offset = 0
+    chunks.forEach(chunk => {
+      bytes.set(chunk, offset)
+      offset += chunk.length
+    })
+    return bytes
+  }
+
+  read(): unknown {
+    if (this.depth === maxDepth) throw new SyntaxError(`CBOR data is nested deeper than ${maxDepth} levels at ${this.offset}`)
+    this.depth++
+    const value = this.item()
+    this.depth--
+    return value
+  }
+
+  item(): unknown {
+    const initial = this.bytes[this.take(1)]
+    const major = Math.floor(initial / 32)
+    const info = initial % 32
+    switch (major) {
+      case 0:
+      case 1: {
+        const value = this.argument(info)
+        if (value === undefined) throw new SyntaxError(`Invalid integer in CBOR data at ${this.offset - 1}`)
+        if (major === 0) return value
+        return typeof value === 'bigint' ? -1n - value : -1 - value
+      }
+      case 2:
+      case 3: {
+        const length = this.length(info)
+        const bytes = length === undefined ? this.chunks(major) : this.bytes.slice(this.take(length), this.offset)
+        if (major === 2) return bytes
+        try {
+          return decoder.decode(bytes)
+        } catch {
+          throw new SyntaxError(`Invalid UTF-8 string in CBOR data at ${this.offset}`)
+        }
+      }
+      case 4: {
+        const length = this.length(info)
+        const array: unknown[] = []
+        if (length === undefined) while (!this.end()) array.push(this.read())
+        else for (let index = 0; index < length; index++) array.push(this.read())
+        return array
+      }
+      case 5:
+        return this.map(this.length(info))
+      case 6: {
+        const tag = this.argument(info)
+        if (tag === undefined) throw new SyntaxError(`Invalid tag in CBOR data at ${this.offset - 1}`)
+        return this.tagged(tag)
+      }
+      default:
+        return this.simple(info)
+    }
+  }
+
+  /** Map with string keys is read as plain object, others as Map */
+  map(length: number | undefined) {
+    const entries: Array<[unknown, unknown]> = []
+    if (length === undefined) while (!this.end()) entries.push([this.read(), this.read()])
+    else for (let index = 0; index < length; index++) entries.push([this.read(), this.read()])
+    if (!entries.every(([key]) => typeof key === 'string')) return new Map(entries)
+    const object = {}
+    // defined instead of assigned, so that `__proto__` key is a property too
+    entries.forEach(([key, value]) => Object.defineProperty(object, key as string, { value, enumerable: true, writable: true, configurable: true }))
+    return object
+  }
+
+  tagged(tag: number | bigint) {
+    const value = this.read()
+    if (tag === 0 && typeof value === 'string') return new Date(value)
+    if (tag === 1 && typeof value === 'number') return new Date(Math.round(value * 1000))
+    if ((tag === 2 || tag === 3) && value instanceof Uint8Array) {
+      const bigint = value.reduce((result, byte) => result * 256n + BigInt(byte), 0n)
+      return tag === 2 ? bigint : -1n - bigint
+    }
+    const Type = typedArrays.get(Number(tag))
+    if (Type && value instanceof Uint8Array) {
+      const size = (Type as Float64ArrayConstructor).BYTES_PER_ELEMENT
+      if (value.length % size) throw new SyntaxError(`Invalid length of typed array in CBOR data at ${this.offset}`)
+      const bytes = littleEndian ? value : swap(value, size)
+      return new (Type as Float64ArrayConstructor)(bytes.buffer, bytes.byteOffset, bytes.length / size)
+    }
+    // unknown tags are ignored
+    return value
+  }
+
+  simple(info: number) {
+    switch (info) {
+      case 20:
+        return false
+      case 21:
+        return true
+      case 22:
+        return null
+      case 23:
+        return undefined
+      case 25:
+        return float16(this.view.getUint16(this.take(2)))
+      case 26:
+        return this.view.getFloat32(this.take(4))
+      case 27:
+        return this.view.getFloat64(this.take(8))
+      default:
+        throw new SyntaxError(`Unsupported simple value ${info} in CBOR data at ${this.offset - 1}`)
+    }
+  }
+}
+
+function float16(half: number) {
+  const exponent = Math.floor(half / 1024) % 32
+  const fraction = half % 1024
+  const sign = half < 0x8000 ? 1 : -1
+  if (exponent === 0) return sign * fraction * 2 ** -24
+  if (exponent === 31) return fraction ? NaN : sign * Infinity
+  return sign * (1024 + fraction) * 2 ** (exponent - 25)
+}
+
+/** Decodes single CBOR data item, see RFC 8949. Throws SyntaxError, if data is not valid or is nested too deep. <br />
+ * Byte strings are read as Uint8Array, maps with string keys as plain objects, other maps as Map.
+ * */
+export function decode(bytes: Uint8Array): unknown {
+  const reader = new Reader(bytes)
+  const value = reader.read()
+  if (reader.offset !== bytes.length) throw new SyntaxError(`Unexpected data after CBOR item at ${reader.offset}`)
+  return value
+}
@@ -0,0 +1,21 @@
+const numeric = /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/
+
+/** Converts value from json to given type in `coerce` mode, returns undefined if value can't be converted safely: <br />
+ * - numeric strings to Number; <br />
+ * - `"true"` and `"false"` to Boolean; <br />
+ * - finite numbers to String; <br />
+ * - epoch milliseconds to Date.
+ * */
+export function coerce(value: unknown, Type: unknown): unknown {
+  if (Type === Number && typeof value === 'string' && numeric.test(value)) {
+    const number = Number(value)
+    return Number.isFinite(number) ? number : undefined
+  }
+  if (Type === Boolean && (value === 'true' || value === 'false')) return value === 'true'
+  if (Type === String && typeof value === 'number' && Number.isFinite(value)) return String(value)
+  if (Type === Date && typeof value === 'number') {
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? undefined : date
+  }
+  return undefined
+}
@@ -0,0 +1,126 @@
+import { ConverterContext } from './Transformer.js'
+
+/** Name of constraint declared in TypeDescriptor */
+export type ConstraintRule = 'min' | 'max' | 'integer' | 'minLength' | 'maxLength' | 'pattern' | 'enum' | 'minItems' | 'maxItems' | 'unique' | 'validate'
+
+/** Constraints of value, checked by fromJSON in strict mode, after the value is transformed. <br />
+ * Every constraint applies only to values of matching type, i.e. `minLength` is ignored for numbers.
+ * */
+export interface Constraints<V = any, T = any> {
+  /** Minimal Number, BigInt or Date */
+  min?: number | bigint | Date
+
+  /** Maximal Number, BigInt or Date */
+  max?: number | bigint | Date
+
+  /** Number must be an integer */
+  integer?: boolean
+
+  /** Minimal length of String */
+  minLength?: number
+
+  /** Maximal length of String */
+  maxLength?: number
+
+  /** String must match the pattern */
+  pattern?: RegExp | string
+
+  /** Allowed values */
+  enum?: readonly unknown[]
+
+  /** Minimal size of Array, Set or Map */
+  minItems?: number
+
+  /** Maximal size of Array, Set or Map */
+  maxItems?: number
+
+  /** Elements of Array must be unique, objects are compared by their own enumerable properties */
+  unique?: boolean
+
+  /** Custom check, returns `false` or message, if value is not valid */
+  validate?: (value: V, context: ConverterContext<T>) => boolean | string
+}
+
+/** Describes violated constraint */
+export interface Violation {
+  rule: ConstraintRule
+
+  /** Readable description of expected value */
+  expected: string
+  cause?: unknown
+}
+
+const rules: ConstraintRule[] = ['min', 'max', 'integer', 'minLength', 'maxLength', 'pattern', 'enum', 'minItems', 'maxItems', 'unique', 'validate']
+
+/** Results of isConstrained by descriptors */
+const constrained = new WeakMap<Constraints, boolean>()
+
+/** Returns true, if at least one constraint is declared. Result is computed once for every descriptor */
+export function isConstrained(constraints: Constraints) {
+  let result = constrained.get(constraints)
+  if (result === undefined) {
+    result = rules.some(rule => constraints[rule] !== undefined)
+    constrained.set(constraints, result)
+  }
+  return result
+}
+
+function size(value: unknown) {
+  if (Array.isArray(value)) return value.length
+  if (value instanceof Set || value instanceof Map) return value.size
+  return undefined
+}
+
+function isComparable(value: unknown): value is number | bigint | Date {
+  return typeof value === 'number' || typeof value === 'bigint' || value instanceof Date
+}
+
+function readable(value: unknown) {
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+/** Returns key, which is equal for equal elements */
+function identity(element: unknown) {
+  if (element instanceof Date) return element.getTime()
+  if (Object(element) !== element) return element
+  try {
+    return JSON.stringify(element, (_, value) => (typeof value === 'bigint' ? value.toString() : value))
+  } catch {
+    // i.e. object references itself
+    return element
+  }
+}
+
+/** Returns the first violated constraint */
+export function check<V, T>(value: V, constraints: Constraints<V, T>, context: ConverterContext<T>): Violation | undefined {
+  const { min, max, integer, minLength, maxLength, pattern, minItems, maxItems, unique, validate } = constraints
+  if (isComparable(value)) {
+    if (min !== undefined && value < min) return { rule: 'min', expected: `>= ${readable(min)}` }
+    if (max !== undefined && value > max) return { rule: 'max', expected: `<= ${readable(max)}` }
+  }
+  if (integer && typeof value === 'number' && !Number.isInteger(value)) return { rule: 'integer', expected: 'integer' }
+  if (typeof value === 'string') {
+    if (minLength !== undefined && value.length < minLength) return { rule: 'minLength', expected: `length >= ${minLength}` }
+    if (maxLength !== undefined && value.length > maxLength) return { rule: 'maxLength', expected: `length <= ${maxLength}` }
+    if (pattern !== undefined && !new RegExp(pattern).test(value)) return { rule: 'pattern', expected: `matching ${new RegExp(pattern)}` }
+  }
+  if (constraints.enum && !constraints.enum.includes(value)) return { rule: 'enum', expected: `one of ${constraints.enum.map(readable).join(', ')}` }
+  const length = size(value)
+  if (length !== undefined) {
+    if (minItems !== undefined && length < minItems) return { rule: 'minItems', expected: `size >= ${minItems}` }
+    if (maxItems !== undefined && length > maxItems) return { rule: 'maxItems', expected: `size <= ${maxItems}` }
+  }
+  if (unique && Array.isArray(value) && new Set(value.map(identity)).size !== value.length) {
+    return { rule: 'unique', expected: 'unique elements' }
+  }
+  if (validate) {
+    try {
+      const result = validate(value, context)
+      if (result === false) return { rule: 'validate', expected: 'valid value' }
+      if (typeof result === 'string') return { rule: 'validate', expected: result }
+    } catch (e) {
+      return { rule: 'validate', expected: e instanceof Error ? e.message : String(e), cause: e }
+    }
+  }
+  return undefined
+}
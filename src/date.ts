@@ -0,0 +1,74 @@
+/** Forms of dates in json: <br />
+ * - `iso` - ISO 8601 date and time with time zone, i.e. `2024-05-17T10:30:00.000Z`; <br />
+ * - `date` - date only, i.e. `2024-05-17`, is read as UTC midnight; <br />
+ * - `epoch-ms` - number of milliseconds since 1970-01-01 UTC; <br />
+ * - `epoch-s` - number of seconds since 1970-01-01 UTC, can be fractional.
+ * */
+export type DateFormat = 'iso' | 'date' | 'epoch-ms' | 'epoch-s'
+
+/** Describes accepted and written forms of Date */
+export interface DateOptions {
+  /** Forms accepted by fromJSON. <br />
+   * By default, any string which can be parsed by Date constructor is accepted.
+   * */
+  input?: DateFormat | DateFormat[]
+
+  /** Form written by toJSON. Is `iso` by default. */
+  output?: DateFormat
+}
+
+const iso = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/
+const dateOnly = /^\d{4}-\d{2}-\d{2}$/
+
+function valid(date: Date) {
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/** Parses value in json as one of the formats */
+function parse(value: unknown, format: DateFormat) {
+  switch (format) {
+    case 'iso':
+      return typeof value === 'string' && iso.test(value) ? valid(new Date(value)) : undefined
+    case 'date': {
+      if (typeof value !== 'string' || !dateOnly.test(value)) return undefined
+      const date = valid(new Date(value))
+      // rejects dates like 2023-02-30, which are shifted by Date constructor
+      return date?.toISOString().startsWith(value) ? date : undefined
+    }
+    case 'epoch-ms':
+      return typeof value === 'number' ? valid(new Date(value)) : undefined
+    case 'epoch-s':
+      return typeof value === 'number' ? valid(new Date(value * 1000)) : undefined
+    default:
+      return undefined
+  }
+}
+
+/** Creates Date from its json representation, returns undefined if json is not a valid date */
+export function toDate(value: unknown, options?: DateOptions): Date | undefined {
+  // dates of binary formats are accepted in any form
+  if (value instanceof Date) return valid(new Date(value.getTime()))
+  const input = options?.input
+  if (input === undefined) return typeof value === 'string' ? valid(new Date(value)) : undefined
+  for (const format of [input].flat()) {
+    const date = parse(value, format)
+    if (date) return date
+  }
+  return undefined
+}
+
+/** Returns json representation of Date, invalid dates are written as null */
+export function fromDate(date: Date, options?: DateOptions): string | number | null {
+  const time = date.getTime()
+  if (Number.isNaN(time)) return null
+  switch (options?.output) {
+    case 'date':
+      return date.toISOString().slice(0, 10)
+    case 'epoch-ms':
+      return time
+    case 'epoch-s':
+      return time / 1000
+    default:
+      return date.toISOString()
+  }
+}
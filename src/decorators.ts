@@ -0,0 +1,54 @@
+import { TypeDescriptor } from './Transformer.js'
+
+/** TypeDescriptors declared with decorators, by classes */
+const schemas = new WeakMap<Function, Record<string, TypeDescriptor>>()
+
+/** Returns TypeDescriptors declared with decorators in class */
+export function decorated(ctor: Function) {
+  return schemas.get(ctor)
+}
+
+/** Creates field decorator, which adds properties to TypeDescriptor of the field */
+function describe<V = any>(descriptor: TypeDescriptor<V>) {
+  return function decorate(_: undefined, context: ClassFieldDecoratorContext<unknown, V>) {
+    const { name } = context
+    if (context.static || typeof name !== 'string') {
+      throw new TypeError(`Can't describe field ${String(name)}, only not static fields with string names are supported`)
+    }
+    // descriptor is recorded when the first instance of class is constructed, cause fields have no access to class
+    const recorded = new WeakSet<Function>()
+    context.addInitializer(function record() {
+      const ctor = (this as Object).constructor
+      if (recorded.has(ctor)) return
+      recorded.add(ctor)
+      let schema = schemas.get(ctor)
+      if (!schema) schemas.set(ctor, (schema = {}))
+      schema[name] = { ...schema[name], ...descriptor }
+    })
+  }
+}
+
+/** Field decorator, which adds properties to TypeDescriptor of the field. <br />
+ * I.e. `@Describe({ type: String, strict: false }) phone: string | null = null`
+ * */
+export const Describe = describe
+
+/** Same as `types: { [field]: { type } }` */
+export function Type(type: NonNullable<TypeDescriptor['type']>) {
+  return describe({ type })
+}
+
+/** Same as `types: { [field]: { of } }` */
+export function Of(of: NonNullable<TypeDescriptor['of']>) {
+  return describe({ of })
+}
+
+/** Same as `types: { [field]: { strict } }` */
+export function Strict(strict = true) {
+  return describe({ strict })
+}
+
+/** Same as `types: { [field]: { key } }` */
+export function Key(key: string) {
+  return describe({ key })
+}
@@ -1,2 +1,9 @@
-export { Transformer, TransformError } from './Transformer.js'
-export type { Schema } from './Transformer'
\ No newline at end of file
+export { Transformer, TransformError, TransformAggregateError } from './Transformer.js'
+export { Describe, Type, Of, Strict, Key } from './decorators.js'
+export type { Schema, TypeDescriptor, Union, StrictMode, ExcessPolicy, ConverterContext, TypeConverter, TransformerOptions, ClassFactory, LifecycleHooks, CompiledTransformer, JSONSchema, ViewOptions, FromJSONOptions, FromJSONStreamOptions, MergeOptions, ToJSONOptions, ToJSONStreamOptions, TransformIssue, TransformErrorCode, TransformErrorDetails } from './Transformer.js'
+export type { NamingStrategy } from './naming.js'
+export type { JSONSource, StreamFormat } from './stream.js'
+export type { BinaryEncoding } from './binary.js'
+export type { DateFormat, DateOptions } from './date.js'
+export type { Constraints, ConstraintRule } from './constraints.js'
+export type { PatchOperation } from './patch.js'
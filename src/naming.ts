@@ -0,0 +1,38 @@
+/** Describes how names of class properties are written in json. <br />
+ * Custom function receives name of class property and returns name of property in json.
+ * */
+export type NamingStrategy = 'snake_case' | 'kebab-case' | 'PascalCase' | ((property: string) => string)
+
+const cache = new Map<NamingStrategy, Map<string, string>>()
+
+/** Splits camelCase property name into words, i.e. "userID" -> ["user", "ID"] */
+function words(property: string) {
+  return property
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1 $2')
+    .split(' ')
+}
+
+function convert(property: string, strategy: Exclude<NamingStrategy, Function>) {
+  switch (strategy) {
+    case 'snake_case':
+      return words(property).join('_').toLowerCase()
+    case 'kebab-case':
+      return words(property).join('-').toLowerCase()
+    case 'PascalCase':
+      return property.charAt(0).toUpperCase() + property.slice(1)
+    default:
+      return property
+  }
+}
+
+/** Returns name of property in json for class property */
+export function toJSONName(property: string, strategy?: NamingStrategy) {
+  if (!strategy) return property
+  if (typeof strategy === 'function') return strategy(property)
+  let names = cache.get(strategy)
+  if (!names) cache.set(strategy, (names = new Map()))
+  let name = names.get(property)
+  if (name === undefined) names.set(property, (name = convert(property, strategy)))
+  return name
+}
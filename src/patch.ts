@@ -0,0 +1,164 @@
+/** Operation of JSON Patch, see RFC 6902 */
+export interface PatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test'
+
+  /** JSON pointer to the changed value, i.e. `/addresses/0/city` */
+  path: string
+
+  /** JSON pointer to the source value of `move` and `copy` */
+  from?: string
+
+  /** New value for `add` and `replace`, expected value for `test` */
+  value?: unknown
+}
+
+/** Thrown by apply, when operation can't be applied */
+export class PatchError extends Error {
+  constructor(message: string, readonly path: string) {
+    super(message)
+  }
+}
+
+type Container = Record<string, unknown> | unknown[]
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value)
+}
+
+function escape(token: string | number) {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/** Compares json values, order of object properties is ignored */
+export function equal(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (Array.isArray(a)) return Array.isArray(b) && a.length === b.length && a.every((item, index) => equal(item, b[index]))
+  if (!isObject(a) || !isObject(b)) return false
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every(key => Object.hasOwn(b, key) && equal(a[key], b[key]))
+}
+
+/** Returns operations, which turn json value `a` into `b`. Elements of arrays are compared by their indexes */
+export function diff(a: unknown, b: unknown, path = ''): PatchOperation[] {
+  if (equal(a, b)) return []
+  const operations: PatchOperation[] = []
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const common = Math.min(a.length, b.length)
+    for (let index = 0; index < common; index++) operations.push(...diff(a[index], b[index], `${path}/${index}`))
+    for (let index = common; index < b.length; index++) operations.push({ op: 'add', path: `${path}/${index}`, value: b[index] })
+    // removed from the end, so indexes of other elements are not changed
+    for (let index = a.length - 1; index >= common; index--) operations.push({ op: 'remove', path: `${path}/${index}` })
+    return operations
+  }
+  if (isObject(a) && isObject(b)) {
+    Object.keys(a).forEach(key => {
+      const pointer = `${path}/${escape(key)}`
+      if (!Object.hasOwn(b, key)) operations.push({ op: 'remove', path: pointer })
+      else operations.push(...diff(a[key], b[key], pointer))
+    })
+    Object.keys(b).forEach(key => {
+      if (!Object.hasOwn(a, key)) operations.push({ op: 'add', path: `${path}/${escape(key)}`, value: b[key] })
+    })
+    return operations
+  }
+  return [{ op: 'replace', path, value: b }]
+}
+
+/** Splits JSON pointer into reference tokens, see RFC 6901 */
+function parse(pointer: unknown): string[] {
+  if (typeof pointer !== 'string' || (pointer !== '' && !pointer.startsWith('/'))) {
+    throw new PatchError(`Invalid JSON pointer "${pointer}"`, String(pointer))
+  }
+  return pointer === '' ? [] : pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/** Returns index of array element, `-` means the end of array for `add` */
+function indexOf(array: unknown[], token: string, pointer: string, end: boolean): number {
+  if (end && token === '-') return array.length
+  const index = /^(0|[1-9]\d*)$/.test(token) ? Number(token) : NaN
+  if (!(index <= (end ? array.length : array.length - 1))) throw new PatchError(`Invalid index "${token}" of array at "${pointer}"`, pointer)
+  return index
+}
+
+/** Returns container of value and token of the value in it */
+function locate(document: unknown, tokens: string[], pointer: string): [Container, string] {
+  let container = document
+  for (const token of tokens.slice(0, -1)) {
+    if (Array.isArray(container)) container = container[indexOf(container, token, pointer, false)]
+    else if (isObject(container) && Object.hasOwn(container, token)) container = container[token]
+    else throw new PatchError(`Path "${pointer}" doesn't exist`, pointer)
+  }
+  if (container == null || typeof container !== 'object') throw new PatchError(`Path "${pointer}" doesn't exist`, pointer)
+  return [container as Container, tokens[tokens.length - 1]]
+}
+
+function get(document: unknown, pointer: string): unknown {
+  const tokens = parse(pointer)
+  if (!tokens.length) return document
+  const [container, token] = locate(document, tokens, pointer)
+  if (Array.isArray(container)) return container[indexOf(container, token, pointer, false)]
+  if (!Object.hasOwn(container, token)) throw new PatchError(`Path "${pointer}" doesn't exist`, pointer)
+  return container[token]
+}
+
+function add(document: unknown, pointer: string, value: unknown): unknown {
+  const tokens = parse(pointer)
+  if (!tokens.length) return value
+  const [container, token] = locate(document, tokens, pointer)
+  if (Array.isArray(container)) container.splice(indexOf(container, token, pointer, true), 0, value)
+  // defined instead of assigned, so that `__proto__` token adds a property instead of replacing the prototype
+  else Object.defineProperty(container, token, { value, enumerable: true, writable: true, configurable: true })
+  return document
+}
+
+function remove(document: unknown, pointer: string): unknown {
+  const tokens = parse(pointer)
+  if (!tokens.length) throw new PatchError('Root of document can\'t be removed', pointer)
+  const [container, token] = locate(document, tokens, pointer)
+  if (Array.isArray(container)) {
+    container.splice(indexOf(container, token, pointer, false), 1)
+  } else {
+    if (!Object.hasOwn(container, token)) throw new PatchError(`Path "${pointer}" doesn't exist`, pointer)
+    delete container[token]
+  }
+  return document
+}
+
+/** Applies operations to copy of json document, throws PatchError if operation can't be applied */
+export function apply(document: unknown, operations: PatchOperation[]): unknown {
+  let result = structuredClone(document)
+  operations.forEach(({ op, path, from, value }, index) => {
+    if (typeof path !== 'string') throw new PatchError(`Operation ${index} has no path`, '')
+    if (value === undefined && (op === 'add' || op === 'replace' || op === 'test')) throw new PatchError(`Operation ${index} has no value`, path)
+    // values are copied, so the patch and the document don't share objects
+    switch (op) {
+      case 'add':
+        result = add(result, path, structuredClone(value))
+        break
+      case 'remove':
+        result = remove(result, path)
+        break
+      case 'replace':
+        get(result, path)
+        result = path === '' ? structuredClone(value) : add(remove(result, path), path, structuredClone(value))
+        break
+      case 'move': {
+        if (from === undefined) throw new PatchError(`Operation ${index} has no source`, path)
+        if (path.startsWith(`${from}/`)) throw new PatchError(`Value at "${from}" can't be moved into itself`, path)
+        const moved = get(result, from)
+        result = add(remove(result, from), path, moved)
+        break
+      }
+      case 'copy':
+        if (from === undefined) throw new PatchError(`Operation ${index} has no source`, path)
+        result = add(result, path, structuredClone(get(result, from)))
+        break
+      case 'test':
+        if (!equal(get(result, path), value)) throw new PatchError(`Value at "${path}" doesn't match the test`, path)
+        break
+      default:
+        throw new PatchError(`Unknown operation "${op}"`, path)
+    }
+  })
+  return result
+}
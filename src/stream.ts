@@ -0,0 +1,183 @@
+/** Source of json text for streaming transformation */
+export type JSONSource = AsyncIterable<string | Uint8Array> | ReadableStream<string | Uint8Array>
+
+/** Format of json in stream: <br />
+ * - `ndjson` - one json value per line; <br />
+ * - `array` - top-level json array.
+ * */
+export type StreamFormat = 'ndjson' | 'array'
+
+/** Reads values one at a time, `read` resolves undefined at the end. `close` stops reading before the end */
+export interface StreamReader<T> {
+  read(): Promise<T | undefined>
+  close(): Promise<void>
+}
+
+const ended = () => Promise.resolve(undefined)
+
+/** Reads chunks of text, bytes are decoded as UTF-8 even if characters are split between chunks */
+function chunks(source: JSONSource): StreamReader<string> {
+  const decoder = new TextDecoder()
+  const decode = (chunk: string | Uint8Array) => (typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }))
+  const reader = 'getReader' in source ? source.getReader() : undefined
+  const iterator = 'getReader' in source ? undefined : source[Symbol.asyncIterator]()
+  let done = false
+  return {
+    read: async () => {
+      if (done) return undefined
+      const result = reader ? await reader.read() : await iterator!.next()
+      if (!result.done) return decode(result.value)
+      done = true
+      reader?.releaseLock()
+      return decoder.decode() || undefined
+    },
+    close: async () => {
+      if (done) return
+      done = true
+      if (reader) reader.releaseLock()
+      else await iterator!.return?.()
+    }
+  }
+}
+
+/** Reads not empty lines of text */
+function lines(text: StreamReader<string>): StreamReader<string> {
+  const queue: string[] = []
+  let buffer = ''
+  let done = false
+  const read = async (): Promise<string | undefined> => {
+    if (queue.length) return queue.shift()
+    if (done) return undefined
+    const chunk = await text.read()
+    if (chunk === undefined) {
+      done = true
+      return buffer.trim() || undefined
+    }
+    const parts = (buffer + chunk).split('\n')
+    buffer = parts.pop()!
+    parts.forEach(line => {
+      if (line.trim()) queue.push(line.trim())
+    })
+    return read()
+  }
+  return { read, close: text.close }
+}
+
+/** Reads text of every element of top-level json array, without parsing the whole array */
+function elements(text: StreamReader<string>): StreamReader<string> {
+  const queue: string[] = []
+  let buffer = ''
+  let started = false
+  let finished = false
+  let depth = 0
+  let string = false
+  let escaped = false
+
+  /** Finds elements, which end in the chunk, the rest of chunk is kept in buffer */
+  const scan = (chunk: string) => {
+    let start = 0
+    buffer += chunk
+    for (let index = buffer.length - chunk.length; index < buffer.length && !finished; index++) {
+      const char = buffer[index]
+      if (!started) {
+        if (char === '[') {
+          started = true
+          start = index + 1
+        } else if (char.trim()) {
+          throw new SyntaxError(`Unexpected token "${char}", top-level json array expected`)
+        }
+      } else if (string) {
+        if (escaped) escaped = false
+        else if (char === '\\') escaped = true
+        else if (char === '"') string = false
+      } else if (char === '"') {
+        string = true
+      } else if (char === '[' || char === '{') {
+        depth++
+      } else if (char === ']' || char === '}') {
+        if (depth === 0) {
+          const element = buffer.slice(start, index).trim()
+          if (element) queue.push(element)
+          finished = true
+        }
+        depth--
+      } else if (char === ',' && depth === 0) {
+        queue.push(buffer.slice(start, index).trim())
+        start = index + 1
+      }
+    }
+    buffer = buffer.slice(start)
+  }
+
+  const read = async (): Promise<string | undefined> => {
+    if (queue.length) return queue.shift()
+    if (finished) return undefined
+    const chunk = await text.read()
+    if (chunk === undefined) throw new SyntaxError('Unexpected end of json array')
+    scan(chunk)
+    return read()
+  }
+  return { read, close: text.close }
+}
+
+/** Reads text of every record in stream */
+export function records(source: JSONSource, format?: StreamFormat): StreamReader<string> {
+  const text = chunks(source)
+  if (format === 'ndjson') return lines(text)
+  if (format === 'array') return elements(text)
+  // format is detected by the first not whitespace character
+  const detect = async (head: string): Promise<StreamReader<string>> => {
+    const chunk = await text.read()
+    if (chunk === undefined) return { read: ended, close: text.close }
+    if (!(head + chunk).trim()) return detect(head + chunk)
+    let first = true
+    const all: StreamReader<string> = {
+      read: () => {
+        if (!first) return text.read()
+        first = false
+        return Promise.resolve(head + chunk)
+      },
+      close: text.close
+    }
+    return (head + chunk).trimStart().startsWith('[') ? elements(all) : lines(all)
+  }
+  let detected: Promise<StreamReader<string>> | undefined
+  return {
+    read: async () => {
+      detected ??= detect('')
+      return (await detected).read()
+    },
+    close: text.close
+  }
+}
+
+/** Returns async iterator over values of reader, which is finished at the end, on error, or when it's returned early,
+ * i.e. by `break` in `for await` loop
+ * */
+export function iterate<T>(reader: StreamReader<T>): AsyncIterableIterator<T> {
+  let finished = false
+  const finish = async (): Promise<IteratorReturnResult<undefined>> => {
+    if (!finished) {
+      finished = true
+      await reader.close()
+    }
+    return { done: true, value: undefined }
+  }
+  return {
+    next: async () => {
+      if (finished) return { done: true, value: undefined }
+      try {
+        const value = await reader.read()
+        if (value === undefined) return await finish()
+        return { done: false, value }
+      } catch (e) {
+        await finish()
+        throw e
+      }
+    },
+    return: finish,
+    [Symbol.asyncIterator]() {
+      return this
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Ledger {
+  static types: Schema<Ledger> = {
+    total: { type: BigInt },
+    amounts: { of: BigInt },
+    byAccount: { of: BigInt }
+  }
+
+  id = 0n
+  total: bigint | null = null
+  amounts: bigint[] = []
+  byAccount = new Map<string, bigint>()
+}
+
+const big = '123456789012345678901234567890'
+
+describe('BigInt', () => {
+  it('should accept decimal strings and safe integers', () => {
+    const ledger = Transformer.fromJSON({ id: big, total: -5, amounts: ['1', 2], byAccount: { a: big } }, Ledger)
+    assert.equal(ledger.id, BigInt(big))
+    assert.equal(ledger.total, -5n)
+    assert.deepEqual(ledger.amounts, [1n, 2n])
+    assert.equal(ledger.byAccount.get('a'), BigInt(big))
+  })
+
+  it('should throw in strict mode when value is not an integer', () => {
+    for (const id of ['1.5', 1.5, 'abc', true, Number.MAX_SAFE_INTEGER + 2]) {
+      assert.throws(() => Transformer.fromJSON({ id, total: 1, amounts: [], byAccount: {} }, Ledger), (error: TransformError) => {
+        assert.equal(error.code, 'TYPE_MISMATCH')
+        assert.equal(error.expected, 'BigInt')
+        return true
+      })
+    }
+    assert.throws(() => Transformer.fromJSON({ id: 1, total: 1, amounts: ['x'], byAccount: {} }, Ledger), TransformError)
+    assert.equal(Transformer.fromJSON({ id: 'x' }, Ledger, false).id, 0n)
+  })
+
+  it('should write BigInt as string by default', () => {
+    const ledger = Transformer.fromJSON({ id: big, total: 1, amounts: [2], byAccount: { a: 3 } }, Ledger)
+    assert.deepEqual(Transformer.toJSON(ledger), { id: big, total: '1', amounts: ['2'], byAccount: { a: '3' } })
+  })
+
+  it('should write BigInt as number, if it is safe', () => {
+    const ledger = Transformer.fromJSON({ id: 1, total: 1, amounts: [2], byAccount: { a: 3 } }, Ledger)
+    assert.deepEqual(Transformer.toJSON(ledger, { bigint: 'number' }), { id: 1, total: 1, amounts: [2], byAccount: { a: 3 } })
+    ledger.amounts.push(BigInt(big))
+    assert.throws(() => Transformer.toJSON(ledger, { bigint: 'number' }), (error: TransformError) => {
+      assert.equal(error.code, 'UNSAFE_INTEGER')
+      assert.equal(error.path, '/amounts/1')
+      return true
+    })
+  })
+
+  it('should describe BigInt in JSON Schema', () => {
+    const { $defs } = Transformer.toJSONSchema(Ledger)
+    assert.deepEqual($defs?.Ledger.properties?.id, { type: ['string', 'integer'], pattern: '^-?\\d+$' })
+    assert.deepEqual($defs?.Ledger.properties?.total, { type: ['string', 'integer', 'null'], pattern: '^-?\\d+$' })
+  })
+})
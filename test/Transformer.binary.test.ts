@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Attachment {
+  static types: Schema<Attachment> = {
+    checksum: { type: ArrayBuffer, binary: 'hex' },
+    view: { type: DataView },
+    chunks: { of: Uint8Array },
+    samples: { of: Float32Array, binary: 'array' }
+  }
+
+  data = new Uint8Array()
+  checksum: ArrayBuffer | null = null
+  view: DataView | null = null
+  counters = new BigInt64Array()
+  chunks: Uint8Array[] = []
+  samples = new Map<string, Float32Array>()
+}
+
+function attachment() {
+  const value = new Attachment()
+  value.data = Uint8Array.of(0, 1, 2, 250, 251, 255)
+  value.checksum = Uint8Array.of(0xde, 0xad, 0xbe, 0xef).buffer
+  value.view = new DataView(Uint8Array.of(9, 8, 7).buffer)
+  value.counters = BigInt64Array.of(1n, -2n)
+  value.chunks = [Uint8Array.of(1), Uint8Array.of(2, 3)]
+  value.samples.set('left', Float32Array.of(0.5, -1))
+  return value
+}
+
+describe('Binary data', () => {
+  it('should write binary data as base64 by default, and with encoding from descriptor', () => {
+    const json = Transformer.toJSON(attachment())
+    assert.deepEqual(json, {
+      data: 'AAEC+vv/',
+      checksum: 'deadbeef',
+      view: 'CQgH',
+      counters: 'AQAAAAAAAAD+/////////w==',
+      chunks: ['AQ==', 'AgM='],
+      samples: { left: [0.5, -1] }
+    })
+  })
+
+  it('should round trip with every encoding', () => {
+    for (const binary of ['base64', 'base64url', 'hex', 'array'] as const) {
+      const value = attachment()
+      const restored = Transformer.fromJSON(Transformer.toJSON(value, { binary }), Attachment, { binary })
+      assert.deepEqual(restored, value, binary)
+      assert.ok(restored.checksum instanceof ArrayBuffer)
+      assert.ok(restored.view instanceof DataView)
+    }
+  })
+
+  it('should write base64url without padding', () => {
+    const value = new Attachment()
+    value.data = Uint8Array.of(251, 255)
+    assert.equal(Reflect.get(Transformer.toJSON(value, { binary: 'base64url' }), 'data'), '-_8')
+  })
+
+  it('should accept arrays of numbers with any encoding', () => {
+    const value = Transformer.fromJSON({ data: [1, 2], counters: ['1234567890123456789', 1], chunks: [[3]] }, Attachment, false)
+    assert.deepEqual(value.data, Uint8Array.of(1, 2))
+    assert.deepEqual(value.counters, BigInt64Array.of(1234567890123456789n, 1n))
+    assert.deepEqual(value.chunks, [Uint8Array.of(3)])
+  })
+
+  it('should throw when value is not valid binary data', () => {
+    const json = Transformer.toJSON(attachment())
+    const cases: Array<[Object, string, string]> = [
+      [{ ...json, data: 'not base64!' }, '/data', 'Uint8Array'],
+      [{ ...json, data: 5 }, '/data', 'Uint8Array'],
+      [{ ...json, checksum: 'xyz' }, '/checksum', 'ArrayBuffer'],
+      [{ ...json, view: [256] }, '/view', 'DataView'],
+      // 5 bytes can't be split into 8-byte elements
+      [{ ...json, counters: 'AQIDBAU=' }, '/counters', 'BigInt64Array']
+    ]
+    for (const [input, path, expected] of cases) {
+      assert.throws(() => Transformer.fromJSON(input, Attachment), (error: TransformError) => {
+        assert.equal(error.code, 'TYPE_MISMATCH')
+        assert.equal(error.path, path)
+        assert.equal(error.expected, expected)
+        return true
+      })
+    }
+    assert.throws(() => Transformer.fromJSON({ ...json, chunks: ['?'] }, Attachment), (error: TransformError) => {
+      assert.equal(error.code, 'INVALID_ELEMENTS')
+      assert.equal((error.cause as TransformError).path, '/chunks/0')
+      return true
+    })
+  })
+
+  it('should reject elements, which do not fit into elements of typed array', () => {
+    class Samples {
+      bytes = new Uint8Array()
+      shorts = new Int16Array()
+      floats = new Float64Array()
+      signed = new BigInt64Array()
+      unsigned = new BigUint64Array()
+    }
+    const json = { bytes: [0, 255], shorts: [-32768, 32767], floats: [1.5], signed: [-1], unsigned: ['18446744073709551615'] }
+    assert.deepEqual(Transformer.fromJSON(json, Samples).unsigned, BigUint64Array.of(2n ** 64n - 1n))
+    const cases: Array<[Object, string, string]> = [
+      [{ ...json, bytes: [300] }, '/bytes', 'Uint8Array'],
+      [{ ...json, bytes: [-1] }, '/bytes', 'Uint8Array'],
+      [{ ...json, bytes: [1.5] }, '/bytes', 'Uint8Array'],
+      [{ ...json, shorts: [70000] }, '/shorts', 'Int16Array'],
+      [{ ...json, signed: ['9223372036854775808'] }, '/signed', 'BigInt64Array'],
+      [{ ...json, unsigned: [-1] }, '/unsigned', 'BigUint64Array'],
+      [{ ...json, unsigned: ['18446744073709551616'] }, '/unsigned', 'BigUint64Array']
+    ]
+    for (const [input, path, expected] of cases) {
+      assert.throws(() => Transformer.fromJSON(input, Samples), (error: TransformError) => {
+        return error.code === 'TYPE_MISMATCH' && error.path === path && error.expected === expected
+      }, path)
+    }
+  })
+
+  it('should leave initial value in non strict mode', () => {
+    const value = Transformer.fromJSON({ data: '!', checksum: 'xyz' }, Attachment, false)
+    assert.deepEqual(value.data, new Uint8Array())
+    assert.equal(value.checksum, null)
+  })
+
+  it('should describe binary data in JSON Schema', () => {
+    const { $defs } = Transformer.toJSONSchema(Attachment)
+    const { properties } = $defs!.Attachment
+    assert.deepEqual(properties!.data, { type: 'string', contentEncoding: 'base64' })
+    assert.deepEqual(properties!.checksum, { type: ['string', 'null'], contentEncoding: 'base16', pattern: '^([0-9a-fA-F]{2})*$' })
+    assert.deepEqual(properties!.samples, { type: 'object', additionalProperties: { type: 'array', items: { type: 'number' } } })
+  })
+})
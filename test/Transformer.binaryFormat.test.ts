@@ -0,0 +1,110 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Point {
+  x = 0
+  y = 0
+}
+
+class Snapshot {
+  static types: Schema<Snapshot> = {
+    points: { of: Point },
+    visits: { keys: Date },
+    owners: { keys: Number, of: Point },
+    deleted: { type: Date },
+    samples: { type: Float32Array }
+  }
+
+  title = ''
+  ratio = 0.5
+  total = 0n
+  created = new Date(0)
+  deleted: Date | null = null
+  data = new Uint8Array()
+  samples: Float32Array | null = null
+  tags = new Set<string>()
+  points: Point[] = []
+  visits = new Map<Date, number>()
+  owners = new Map<number, Point>()
+  labels = new Map<string, string>()
+}
+
+function createSnapshot() {
+  const snapshot = new Snapshot()
+  snapshot.title = 'Привет, CBOR'
+  snapshot.ratio = 1.1
+  snapshot.total = -123456789012345678901234567890n
+  snapshot.created = new Date('2024-05-17T10:30:00.123Z')
+  snapshot.data = Uint8Array.of(1, 2, 3)
+  snapshot.samples = Float32Array.of(0.5, -1.25)
+  snapshot.tags = new Set(['a', 'b'])
+  snapshot.points = [Object.assign(new Point(), { x: 1, y: 2 })]
+  snapshot.visits = new Map([[new Date('2024-01-01T00:00:00Z'), 3]])
+  snapshot.owners = new Map([[7, Object.assign(new Point(), { x: 3, y: 4 })]])
+  snapshot.labels = new Map([['en', 'Hello']])
+  return snapshot
+}
+
+describe('Transformer: binary format', () => {
+  it('round trips instances with dates, BigInt, binary data and Map keys', () => {
+    const snapshot = createSnapshot()
+    const bytes = Transformer.toBinary(snapshot)
+    assert.ok(bytes instanceof Uint8Array)
+    const result = Transformer.fromBinary(bytes, Snapshot)
+    assert.ok(Transformer.equals(result, snapshot))
+    assert.ok(result.points[0] instanceof Point)
+    assert.ok(result.owners.get(7) instanceof Point)
+  })
+
+  it('is smaller than json', () => {
+    const snapshot = createSnapshot()
+    assert.ok(Transformer.toBinary(snapshot).length < JSON.stringify(Transformer.toJSON(snapshot)).length)
+  })
+
+  it('writes RFC 8949 data items', () => {
+    class Small {
+      flag = true
+      count = 500
+    }
+    // map(2), "flag", true, "count", unsigned(500)
+    assert.deepEqual([...Transformer.toBinary(new Small())], [0xa2, 0x64, ...Buffer.from('flag'), 0xf5, 0x65, ...Buffer.from('count'), 0x19, 0x01, 0xf4])
+  })
+
+  it('uses names and selected properties of toJSON', () => {
+    class User {
+      static types: Schema<User> = { password: { exclude: true } }
+      firstName = 'Jane'
+      password = 'secret'
+    }
+    Transformer.naming = 'snake_case'
+    try {
+      const user = Transformer.fromBinary(Transformer.toBinary(new User()), User, false)
+      assert.equal(user.firstName, 'Jane')
+      assert.equal(user.password, 'secret')
+      const bytes = Buffer.from(Transformer.toBinary(new User()))
+      assert.ok(bytes.includes('first_name'))
+      assert.ok(!bytes.includes('secret'))
+    } finally {
+      Transformer.naming = undefined
+    }
+  })
+
+  it('checks types of values', () => {
+    class Other {
+      title = 0
+    }
+    assert.throws(() => Transformer.fromBinary(Transformer.toBinary(createSnapshot()), Other), (e: TransformError) => e.code === 'TYPE_MISMATCH')
+  })
+
+  it('rejects invalid data', () => {
+    const bytes = Transformer.toBinary(createSnapshot())
+    assert.throws(() => Transformer.fromBinary(bytes.slice(0, -1), Snapshot), (e: TransformError) => e.code === 'INVALID_BINARY')
+    assert.throws(() => Transformer.fromBinary(Uint8Array.of(0x1c), Snapshot), (e: TransformError) => e.code === 'INVALID_BINARY')
+  })
+
+  it('rejects too deeply nested data', () => {
+    const nested = new Uint8Array(200_000).fill(0x81)
+    assert.throws(() => Transformer.fromBinary(nested, Snapshot), (e: TransformError) => e.code === 'INVALID_BINARY')
+  })
+})
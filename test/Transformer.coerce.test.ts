@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformAggregateError, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Address {
+  static types: Schema<Address> = { zip: { type: String } }
+  zip: string | null = null
+}
+
+class User {
+  static types: Schema<User> = {
+    born: { type: Date },
+    scores: { of: Number },
+    visits: { of: Date },
+    address: { type: Address }
+  }
+
+  name = ''
+  age = 0
+  active = false
+  born: Date | null = null
+  roles: string[] = []
+  tags = new Set<string>()
+  scores: number[] = []
+  visits: Date[] = []
+  address: Address | null = null
+}
+
+const json = {
+  name: 42,
+  age: '42',
+  active: 'true',
+  born: 1715941800000,
+  roles: 'admin',
+  tags: 'new',
+  scores: ['1.5', 2],
+  visits: [1715941800000, '2024-05-17T10:30:00.000Z'],
+  address: { zip: 75001 }
+}
+
+describe('Transformer: coerce mode', () => {
+  it('converts values, which can be converted safely', () => {
+    const user = Transformer.fromJSON(json, User, 'coerce')
+    assert.equal(user.name, '42')
+    assert.equal(user.age, 42)
+    assert.equal(user.active, true)
+    assert.equal(user.born?.getTime(), 1715941800000)
+    assert.deepEqual(user.roles, ['admin'])
+    assert.deepEqual([...user.tags], ['new'])
+    assert.deepEqual(user.scores, [1.5, 2])
+    assert.deepEqual(user.visits.map(visit => visit.getTime()), [1715941800000, 1715941800000])
+    assert.equal(user.address?.zip, '75001')
+  })
+
+  it('reports values, which can not be converted', () => {
+    try {
+      Transformer.fromJSON({ ...json, age: '42 years', active: 'yes', scores: ['x'], born: 'never' }, User, { strict: 'coerce', collect: true })
+      assert.fail('Expected error')
+    } catch (e) {
+      assert.ok(e instanceof TransformAggregateError)
+      assert.deepEqual(e.issues.map(({ code, path }) => ({ code, path })), [
+        { code: 'TYPE_MISMATCH', path: '/age' },
+        { code: 'TYPE_MISMATCH', path: '/active' },
+        { code: 'INVALID_DATE', path: '/born' },
+        { code: 'TYPE_MISMATCH', path: '/scores/0' }
+      ])
+    }
+  })
+
+  it('does not convert values in strict and loose modes', () => {
+    assert.throws(() => Transformer.fromJSON(json, User), (e: TransformError) => e.code === 'TYPE_MISMATCH')
+    const user = Transformer.fromJSON(json, User, false)
+    assert.equal(user.age, 0)
+    assert.deepEqual(user.roles, [])
+  })
+
+  it('checks primitive elements the same way as strict mode', () => {
+    const valid = { ...json, name: '42', age: 42, active: true, born: '2024-05-17T10:30:00.000Z', roles: [], tags: [], visits: [], address: null }
+    const issues = [true, 'coerce' as const].map(strict => {
+      try {
+        Transformer.fromJSON({ ...valid, scores: [1, 'q', {}] }, User, { strict, collect: true })
+        return assert.fail('Expected error')
+      } catch (e) {
+        assert.ok(e instanceof TransformAggregateError)
+        return e.issues.map(({ code, path }) => ({ code, path }))
+      }
+    })
+    assert.deepEqual(issues[0], [{ code: 'TYPE_MISMATCH', path: '/scores/1' }, { code: 'TYPE_MISMATCH', path: '/scores/2' }])
+    assert.deepEqual(issues[1], issues[0])
+    assert.deepEqual(Transformer.fromJSON({ ...valid, scores: [1, 'q', {}] }, User, false).scores, [1])
+  })
+
+  it('is selected by descriptor', () => {
+    class Query {
+      static types: Schema<Query> = { page: { strict: 'coerce' } }
+      page = 1
+      size = 10
+    }
+    assert.equal(Transformer.fromJSON({ page: '3', size: 20 }, Query).page, 3)
+    assert.throws(() => Transformer.fromJSON({ page: '3', size: '20' }, Query), (e: TransformError) => e.path === '/size')
+  })
+
+  it('rejects unsafe numbers and booleans', () => {
+    class Values {
+      count = 0
+      flag = false
+    }
+    for (const count of ['', ' 1', '0x10', '1e999', 'NaN']) {
+      assert.throws(() => Transformer.fromJSON({ count, flag: false }, Values, 'coerce'), (e: TransformError) => e.path === '/count', count)
+    }
+    for (const flag of [1, 'TRUE', 'yes']) {
+      assert.throws(() => Transformer.fromJSON({ count: 1, flag }, Values, 'coerce'), (e: TransformError) => e.path === '/flag')
+    }
+  })
+
+  it('is default mode of transformer instance', () => {
+    const transformer = new Transformer({ strict: 'coerce' })
+    assert.equal(transformer.fromJSON({ ...json }, User).age, 42)
+  })
+})
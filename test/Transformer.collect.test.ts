@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformAggregateError, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Organization {
+  static types: Schema<Organization> = { phone: { type: String } }
+  name = ''
+  phone: string | null = null
+}
+
+class Employee {
+  static types: Schema<Employee> = { experience: { of: Organization } }
+  name = ''
+  age = 0
+  experience: Organization[] = []
+}
+
+describe('Transformer.fromJSON in collect mode', () => {
+  it('should return instance when json is valid', () => {
+    const json = { name: 'John', age: 42, experience: [{ name: 'IBM', phone: null }] }
+    const result = Transformer.fromJSON(json, Employee, { collect: true })
+    assert.equal(result.experience[0] instanceof Organization, true)
+  })
+
+  it('should throw one aggregate error with all issues', () => {
+    const json = {
+      age: '42',
+      experience: [
+        { name: 'Google', phone: null },
+        { name: 1, phone: 2 },
+      ]
+    }
+    try {
+      Transformer.fromJSON(json, Employee, { collect: true })
+      assert.fail('should throw')
+    } catch (error) {
+      assert.equal(error instanceof TransformError, true);
+      assert.equal(error instanceof TransformAggregateError, true);
+      const { issues } = error as TransformAggregateError
+      assert.deepEqual(issues.map(({ path, expected, received }) => ({ path, expected, received })), [
+        { path: '/name', expected: 'String', received: 'undefined' },
+        { path: '/age', expected: 'Number', received: 'String' },
+        { path: '/experience/1/name', expected: 'String', received: 'Number' },
+        { path: '/experience/1/phone', expected: 'String', received: 'Number' },
+      ])
+    }
+  })
+
+  it('should escape JSON pointer tokens', () => {
+    class Target {
+      map = new Map<string, Date>()
+      static types = { map: { of: Date } }
+    }
+    try {
+      Transformer.fromJSON({ map: { 'a/b~c': {} } }, Target, { collect: true })
+      assert.fail('should throw')
+    } catch (error) {
+      assert.equal((error as TransformAggregateError).issues[0].path, '/map/a~1b~0c')
+    }
+  })
+
+  it('should not collect issues of properties which are not strict', () => {
+    class Target {
+      static types = { a: { strict: false } }
+      a = 0
+      b = ''
+    }
+    try {
+      Transformer.fromJSON({ a: 'a', b: 1 }, Target, { collect: true })
+      assert.fail('should throw')
+    } catch (error) {
+      const { issues } = error as TransformAggregateError
+      assert.equal(issues.length, 1)
+      assert.equal(issues[0].path, '/b')
+    }
+    const result = Transformer.fromJSON({ a: 'a', b: 1 }, Target, { collect: true, strict: false })
+    assert.equal(result.a, 0)
+  })
+
+  it('should skip invalid elements in non strict mode with and without collect', () => {
+    class Ledger {
+      static types: Schema<Ledger> = { ids: { of: BigInt }, limits: { of: Number, keys: Number } }
+      ids: bigint[] = []
+      limits = new Map<number, number>()
+    }
+    const json = { ids: [1, 'x', 3], limits: { 1: 10, x: 20, 3: 30 } }
+    for (const collect of [false, true]) {
+      const result = Transformer.fromJSON(json, Ledger, { collect, strict: false })
+      assert.deepEqual(result.ids, [1n, 3n])
+      assert.deepEqual([...result.limits.keys()], [1, 3])
+    }
+  })
+})
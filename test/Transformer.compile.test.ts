@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+/** Creates new classes on every call, so compiled and not compiled classes can be compared */
+function classes() {
+  class Engine {
+    volume = 0
+    start() {}
+  }
+
+  class Owner {
+    static types: Schema<Owner> = { phone: { type: String } }
+    name = ''
+    phone: string | null = null
+  }
+
+  class Car {
+    static types: Schema<Car> = {
+      owners: { of: Owner },
+      services: { of: Date },
+      registered: { type: Date },
+      previous: { type: Map, of: Owner }
+    }
+
+    vendor = ''
+    engine = new Engine()
+    owners: Owner[] = []
+    services = new Set<Date>()
+    registered: Date | null = null
+    previous: Map<string, Owner> | null = null
+    meta = Object.create(null)
+  }
+
+  return { Car, Owner, Engine }
+}
+
+const json = {
+  vendor: 'CoolVendor',
+  engine: { volume: 2 },
+  owners: [{ name: 'John', phone: null }, { name: 'Jane', phone: '+1' }],
+  services: ['2020-01-01T00:00:00.000Z'],
+  registered: '2019-01-01T00:00:00.000Z',
+  previous: { a: { name: 'Jim', phone: null } },
+  meta: { any: 'thing' }
+}
+
+describe('Transformer.compile', () => {
+  it('should produce the same instances as not compiled transformer', () => {
+    const reflective = classes()
+    const compiled = classes()
+    const transformer = Transformer.compile(compiled.Car)
+
+    const expected = Transformer.fromJSON(json, reflective.Car)
+    const result = transformer.fromJSON(json)
+    assert.equal(result instanceof compiled.Car, true)
+    assert.equal(result.engine instanceof compiled.Engine, true)
+    assert.equal(result.owners[1] instanceof compiled.Owner, true)
+    assert.equal(result.previous?.get('a') instanceof compiled.Owner, true)
+    assert.deepEqual(transformer.toJSON(result), Transformer.toJSON(expected))
+    assert.deepEqual(transformer.toJSON(result), json)
+  })
+
+  it('should be used by Transformer.fromJSON after compilation', () => {
+    const { Car } = classes()
+    Transformer.compile(Car)
+    assert.deepEqual(Transformer.toJSON(Transformer.fromJSON(json, Car)), json)
+  })
+
+  it('should report the same errors as not compiled transformer', () => {
+    const reflective = classes()
+    const compiled = classes()
+    const transformer = Transformer.compile(compiled.Car)
+    const invalid = { ...json, owners: [{ name: 1 }], engine: { volume: '2' } }
+
+    const errors = [
+      () => Transformer.fromJSON(invalid, reflective.Car, { collect: true }),
+      () => transformer.fromJSON(invalid, { collect: true })
+    ].map(fn => {
+      try {
+        fn()
+      } catch (error) {
+        assert.equal(error instanceof TransformError, true)
+        return (error as Error).message
+      }
+      return assert.fail('should throw')
+    })
+    assert.equal(errors[0], errors[1])
+  })
+
+  it('should use naming, which is changed after compilation', () => {
+    class Person {
+      firstName = ''
+      lastName = ''
+    }
+    const transformer = new Transformer()
+    const compiled = transformer.compile(Person)
+    transformer.naming = 'snake_case'
+    const snake = { first_name: 'John', last_name: 'Doe' }
+
+    assert.deepEqual(transformer.fromJSON(snake, Person), Object.assign(new Person(), { firstName: 'John', lastName: 'Doe' }))
+    assert.deepEqual(compiled.toJSON(compiled.fromJSON(snake)), snake)
+  })
+
+  it('should analyze not compiled class again, when initial values or types change', () => {
+    class Field {
+      static created = 0
+      value: string | number = Field.created++ % 2 ? '' : 0
+    }
+    assert.throws(() => Transformer.fromJSON({ value: 'a' }, Field), TransformError)
+    assert.equal(Transformer.fromJSON({ value: 'a' }, Field).value, 'a')
+    assert.throws(() => Transformer.fromJSON({ value: 'a' }, Field), TransformError)
+
+    class Note {
+      static types: Schema<Note> = {}
+      text: string | null = null
+    }
+    assert.throws(() => Transformer.fromJSON({ text: 'a' }, Note), TransformError)
+    Note.types.text = { type: String }
+    assert.equal(Transformer.fromJSON({ text: 'a' }, Note).text, 'a')
+    Note.types = {}
+    assert.throws(() => Transformer.fromJSON({ text: 'a' }, Note), TransformError)
+  })
+
+  it('should throw when class can not be constructed', () => {
+    class Broken {
+      constructor() { throw new Error('broken') }
+    }
+    assert.throws(() => Transformer.compile(Broken), TransformError)
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformAggregateError, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Account {
+  static types: Schema<Account> = {
+    age: { min: 0, max: 150, integer: true },
+    email: { pattern: /^[^@\s]+@[^@\s]+$/, maxLength: 64 },
+    name: { minLength: 1 },
+    role: { enum: ['admin', 'user'] },
+    tags: { minItems: 1, maxItems: 3, unique: true },
+    limits: { type: Map, maxItems: 1 },
+    nickname: { type: String, strict: false, minLength: 3 },
+    password: { validate: value => value.length >= 8 || 'at least 8 characters' },
+    birthday: { type: Date, min: new Date('1900-01-01') }
+  }
+
+  age = 0
+  email = ''
+  name = ''
+  role = 'user'
+  tags: string[] = []
+  limits: Map<string, number> | null = null
+  nickname: string | null = null
+  password = ''
+  birthday: Date | null = null
+}
+
+const json = {
+  age: 30,
+  email: 'jane@example.com',
+  name: 'Jane',
+  role: 'admin',
+  tags: ['a', 'b'],
+  limits: { daily: 10 },
+  nickname: 'jd',
+  password: 'correct horse',
+  birthday: '1990-01-01'
+}
+
+describe('Constraints', () => {
+  it('should accept valid values', () => {
+    const account = Transformer.fromJSON(json, Account)
+    assert.equal(account.age, 30)
+    assert.deepEqual(account.tags, ['a', 'b'])
+  })
+
+  it('should name the property and the violated rule', () => {
+    assert.throws(() => Transformer.fromJSON({ ...json, age: -1 }, Account), (error: TransformError) => {
+      assert.ok(error instanceof TransformError)
+      assert.equal(error.code, 'CONSTRAINT_VIOLATION')
+      assert.equal(error.rule, 'min')
+      assert.equal(error.path, '/age')
+      assert.equal(error.expected, '>= 0')
+      assert.equal(error.message, 'Value of "age" in JSON violates constraint "min" of Account: expected >= 0')
+      return true
+    })
+  })
+
+  it('should check every rule', () => {
+    const cases: Array<[Object, string]> = [
+      [{ age: 151 }, 'max'],
+      [{ age: 1.5 }, 'integer'],
+      [{ email: 'jane' }, 'pattern'],
+      [{ email: `${'a'.repeat(64)}@b` }, 'maxLength'],
+      [{ name: '' }, 'minLength'],
+      [{ role: 'guest' }, 'enum'],
+      [{ tags: [] }, 'minItems'],
+      [{ tags: ['a', 'b', 'c', 'd'] }, 'maxItems'],
+      [{ tags: ['a', 'a'] }, 'unique'],
+      [{ limits: { daily: 1, weekly: 2 } }, 'maxItems'],
+      [{ password: 'short' }, 'validate'],
+      [{ birthday: '1800-01-01' }, 'min']
+    ]
+    for (const [patch, rule] of cases) {
+      assert.throws(() => Transformer.fromJSON({ ...json, ...patch }, Account), (error: TransformError) => error instanceof TransformError && error.rule === rule, JSON.stringify(patch))
+    }
+    assert.throws(() => Transformer.fromJSON({ ...json, password: 'short' }, Account), (error: TransformError) => error instanceof TransformError && error.expected === 'at least 8 characters')
+  })
+
+  it('should compare objects by their properties when checking uniqueness', () => {
+    class Point {
+      x = 0
+      y = 0
+    }
+    class Path {
+      static types: Schema<Path> = { points: { of: Point, unique: true } }
+      points: Point[] = []
+    }
+    assert.equal(Transformer.fromJSON({ points: [{ x: 1, y: 2 }, { x: 2, y: 1 }] }, Path).points.length, 2)
+    assert.throws(() => Transformer.fromJSON({ points: [{ x: 1, y: 2 }, { x: 1, y: 2 }] }, Path), (error: TransformError) => error instanceof TransformError && error.rule === 'unique')
+  })
+
+  it('should ignore constraints in not strict mode, and skip values missed in json', () => {
+    assert.equal(Transformer.fromJSON({ ...json, nickname: 'x' }, Account).nickname, 'x')
+    assert.equal(Transformer.fromJSON({ age: -1 }, Account, false).age, -1)
+  })
+
+  it('should not report constraints of values with other issues in collect mode', () => {
+    assert.throws(() => Transformer.fromJSON({ ...json, age: 'old', name: '' }, Account, { collect: true }), (error: TransformAggregateError) => {
+      assert.ok(error instanceof TransformAggregateError)
+      assert.deepEqual(error.issues.map(({ path, code, rule }) => ({ path, code, rule })), [
+        { path: '/age', code: 'TYPE_MISMATCH', rule: undefined },
+        { path: '/name', code: 'CONSTRAINT_VIOLATION', rule: 'minLength' }
+      ])
+      return true
+    })
+  })
+
+  it('should check constraints declared in nested descriptors of elements', () => {
+    class Chart {
+      static types: Schema<Chart> = {
+        points: { of: { type: Number, min: 0 } },
+        series: { of: { of: Number, maxItems: 2 } }
+      }
+      points: number[] = []
+      series = new Map<string, number[]>()
+    }
+    assert.throws(() => Transformer.fromJSON({ points: [1, -1], series: {} }, Chart), (error: TransformError) => {
+      assert.ok(error instanceof TransformError)
+      assert.equal(error.code, 'INVALID_ELEMENTS')
+      const cause = error.cause as TransformError
+      assert.equal(cause.code, 'CONSTRAINT_VIOLATION')
+      assert.equal(cause.rule, 'min')
+      assert.equal(cause.path, '/points/1')
+      return true
+    })
+    assert.throws(() => Transformer.fromJSON({ points: [-1, 2], series: { a: [1, 2, 3] } }, Chart, { collect: true }), (error: TransformAggregateError) => {
+      assert.ok(error instanceof TransformAggregateError)
+      assert.deepEqual(error.issues.map(({ path, rule }) => ({ path, rule })), [
+        { path: '/points/0', rule: 'min' },
+        { path: '/series/a', rule: 'maxItems' }
+      ])
+      return true
+    })
+    assert.deepEqual(Transformer.fromJSON({ points: [-1], series: { a: [1, 2, 3] } }, Chart, false).points, [-1])
+    assert.deepEqual(Transformer.toJSONSchema(Chart).$defs!.Chart.properties!.points, { type: 'array', items: { type: 'number', minimum: 0 } })
+  })
+
+  it('should describe constraints in JSON Schema', () => {
+    const { properties } = Transformer.toJSONSchema(Account).$defs!.Account
+    assert.deepEqual(properties!.age, { type: 'integer', minimum: 0, maximum: 150 })
+    assert.deepEqual(properties!.email, { type: 'string', pattern: '^[^@\\s]+@[^@\\s]+$', maxLength: 64 })
+    assert.deepEqual(properties!.role, { type: 'string', enum: ['admin', 'user'] })
+    assert.deepEqual(properties!.tags, { type: 'array', items: {}, minItems: 1, maxItems: 3, uniqueItems: true })
+    assert.deepEqual(properties!.limits, { type: ['object', 'null'], additionalProperties: {}, maxProperties: 1 })
+  })
+})
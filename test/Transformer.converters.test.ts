@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformAggregateError, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Money {
+  constructor(readonly cents = 0) {}
+}
+
+enum Status { Active = 'active', Blocked = 'blocked' }
+const codes = [Status.Active, Status.Blocked]
+
+class Account {
+  static types: Schema<Account> = {
+    balance: {
+      deserialize: (cents: number) => new Money(cents),
+      serialize: money => money.cents
+    },
+    tags: {
+      deserialize: (value: string) => value.split(','),
+      serialize: (tags, { instance }) => (instance.joined ? tags.join(',') : tags)
+    },
+    status: {
+      deserialize: (code: number, { property }) => {
+        if (!codes[code]) throw new Error(`Unknown code of ${property}`)
+        return codes[code]
+      },
+      serialize: status => codes.indexOf(status)
+    }
+  }
+
+  joined = true
+  balance = new Money()
+  tags: string[] = []
+  status: Status | null = null
+}
+
+describe('Custom converters', () => {
+  it('should use converters declared in TypeDescriptor in both directions', () => {
+    const json = { joined: true, balance: 150, tags: 'a,b', status: 1 }
+    const account = Transformer.fromJSON(json, Account)
+    assert.equal(account.balance instanceof Money, true)
+    assert.equal(account.balance.cents, 150)
+    assert.deepEqual(account.tags, ['a', 'b'])
+    assert.equal(account.status, Status.Blocked)
+    assert.deepEqual(Transformer.toJSON(account), json)
+  })
+
+  it('should pass context to converters', () => {
+    const account = Transformer.fromJSON({ joined: false, balance: 1, tags: 'a,b', status: 0 }, Account)
+    assert.deepEqual(Reflect.get(Transformer.toJSON(account), 'tags'), ['a', 'b'])
+  })
+
+  it('should wrap errors thrown by converter', () => {
+    try {
+      Transformer.fromJSON({ joined: true, balance: 1, tags: 'a', status: 5 }, Account)
+      assert.fail('should throw')
+    } catch (error) {
+      assert.equal(error instanceof TransformError, true)
+      assert.equal((error as TransformError).code, 'CONVERTER_FAILED')
+      assert.equal((error as TransformError).path, '/status')
+      assert.equal(((error as TransformError).cause as Error).message, 'Unknown code of status')
+    }
+  })
+
+  it('should report missing property and leave initial value when mode is not strict', () => {
+    try {
+      Transformer.fromJSON({ joined: true, tags: 'a' }, Account, { collect: true })
+      assert.fail('should throw')
+    } catch (error) {
+      const { issues } = error as TransformAggregateError
+      assert.deepEqual(issues.map(issue => issue.code), ['MISSING_PROPERTY', 'MISSING_PROPERTY'])
+    }
+    const account = Transformer.fromJSON({ status: 5 }, Account, false)
+    assert.equal(account.status, null)
+  })
+})
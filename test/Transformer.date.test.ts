@@ -0,0 +1,81 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Event {
+  static types: Schema<Event> = {
+    day: { type: Date, date: { input: 'date', output: 'date' } },
+    updated: { type: Date, date: { input: ['iso', 'epoch-ms'], output: 'epoch-ms' } },
+    reminders: { of: Date, date: { input: 'epoch-s', output: 'epoch-s' } }
+  }
+
+  created = new Date(0)
+  day: Date | null = null
+  updated: Date | null = null
+  reminders: Date[] = []
+}
+
+const json = {
+  created: '2024-05-17T10:30:00.000Z',
+  day: '2024-05-17',
+  updated: 1715941800000,
+  reminders: [1715941800, 1715941800.5]
+}
+
+describe('Date', () => {
+  it('should read dates in formats declared in descriptor', () => {
+    const event = Transformer.fromJSON(json, Event)
+    assert.equal(event.created.toISOString(), json.created)
+    assert.equal(event.day?.toISOString(), '2024-05-17T00:00:00.000Z')
+    assert.equal(event.updated?.toISOString(), json.created)
+    assert.deepEqual(event.reminders.map(date => date.getTime()), [1715941800000, 1715941800500])
+    assert.equal(Transformer.fromJSON({ ...json, updated: json.created }, Event).updated?.getTime(), json.updated)
+  })
+
+  it('should write dates in formats declared in descriptor', () => {
+    assert.deepEqual(Transformer.toJSON(Transformer.fromJSON(json, Event)), json)
+  })
+
+  it('should write invalid dates as null', () => {
+    const event = new Event()
+    event.created = new Date(NaN)
+    event.updated = new Date(NaN)
+    assert.deepEqual(Transformer.toJSON(event), { created: null, day: null, updated: null, reminders: [] })
+  })
+
+  it('should throw in strict mode when value is not a valid date', () => {
+    const cases: Array<[Object, string]> = [
+      [{ ...json, created: 'not a date' }, '/created'],
+      [{ ...json, created: 1715941800000 }, '/created'],
+      [{ ...json, day: '2024-05-17T10:30:00.000Z' }, '/day'],
+      [{ ...json, day: '2023-02-30' }, '/day'],
+      [{ ...json, updated: '2024-05-17' }, '/updated'],
+      [{ ...json, updated: 8.64e15 + 1 }, '/updated']
+    ]
+    for (const [input, path] of cases) {
+      assert.throws(() => Transformer.fromJSON(input, Event), (error: TransformError) => {
+        return error instanceof TransformError && error.code === 'INVALID_DATE' && error.path === path
+      }, path)
+    }
+    assert.throws(() => Transformer.fromJSON({ ...json, reminders: ['2024-05-17'] }, Event), (error: TransformError) => {
+      assert.ok(error instanceof TransformError)
+      assert.equal(error.code, 'INVALID_ELEMENTS')
+      assert.equal((error.cause as TransformError).path, '/reminders/0')
+      return true
+    })
+  })
+
+  it('should leave initial value in non strict mode', () => {
+    const event = Transformer.fromJSON({ created: 'not a date', day: 5 }, Event, false)
+    assert.equal(event.created.getTime(), 0)
+    assert.equal(event.day, null)
+  })
+
+  it('should describe date formats in JSON Schema', () => {
+    const { properties } = Transformer.toJSONSchema(Event).$defs!.Event
+    assert.deepEqual(properties!.created, { type: 'string', format: 'date-time' })
+    assert.deepEqual(properties!.day, { type: ['string', 'null'], format: 'date' })
+    assert.deepEqual(properties!.updated, { anyOf: [{ type: 'string', format: 'date-time' }, { type: 'number' }, { type: 'null' }] })
+    assert.deepEqual(properties!.reminders, { type: 'array', items: { type: 'number' } })
+  })
+})
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import { Describe, Key, Of, Schema, Strict, Transformer, Type } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Organization {
+  @Type(String)
+  phone: string | null = null
+
+  name = ''
+}
+
+class Employee {
+  static types: Schema<Employee> = {
+    // static types and decorators can describe the same property
+    nickname: { type: String }
+  }
+
+  @Key('full_name')
+  fullName = ''
+
+  @Of(Organization)
+  experience: Organization[] = []
+
+  @Type(Array) @Of(Organization)
+  previous: Organization[] | null = null
+
+  @Strict(false)
+  age = 0
+
+  @Strict(false)
+  nickname: string | null = null
+
+  @Describe({ deserialize: (value: string) => value.toUpperCase() })
+  code = ''
+}
+
+describe('Decorators', () => {
+  it('should describe properties like static types', () => {
+    const json = {
+      full_name: 'John Smith',
+      experience: [{ name: 'Google', phone: '+1' }],
+      previous: [{ name: 'IBM', phone: null }],
+      age: 'unknown',
+      code: 'abc'
+    }
+    const employee = Transformer.fromJSON(json, Employee)
+    assert.equal(employee.fullName, 'John Smith')
+    assert.equal(employee.experience[0] instanceof Organization, true)
+    assert.equal(employee.experience[0].phone, '+1')
+    assert.equal(employee.previous?.[0] instanceof Organization, true)
+    assert.equal(employee.age, 0)
+    assert.equal(employee.nickname, null)
+    assert.equal(employee.code, 'ABC')
+    assert.deepEqual(Reflect.get(Transformer.toJSON(employee), 'full_name'), 'John Smith')
+  })
+
+  it('should merge decorators with static types', () => {
+    const json = { full_name: '', experience: [], previous: null, age: 1, nickname: 1, code: '' }
+    // strict from decorator and type from static types, so initial value is constructed
+    assert.equal(Transformer.fromJSON(json, Employee).nickname, '')
+    assert.deepEqual(Transformer.toJSONSchema(Employee).$defs?.Employee.properties?.nickname, { type: ['string', 'null'] })
+  })
+
+  it('should not allow static fields', () => {
+    assert.throws(() => {
+      class Target {
+        @Strict() static field = ''
+      }
+      return Target
+    }, TypeError)
+  })
+})
@@ -148,4 +148,84 @@ describe('Exceptions', () => {
       assert.equal(error instanceof TransformError, true);
     }
   })
-})
\ No newline at end of file
+})
+
+describe('TransformError details', () => {
+  class Address {
+    city = ''
+  }
+
+  class User {
+    static types = { tags: { of: Date } }
+    age = 0
+    born = new Date()
+    address = new Address()
+    tags: Date[] = []
+  }
+
+  const json = { age: 42, born: '2000-01-01', address: { city: 'Paris' }, tags: [] }
+
+  function catchError(fn: () => unknown) {
+    try {
+      fn()
+    } catch (error) {
+      assert.equal(error instanceof TransformError, true);
+      return error as TransformError
+    }
+    return assert.fail('should throw')
+  }
+
+  it('should describe type mismatch with readable type names', () => {
+    const error = catchError(() => Transformer.fromJSON({ ...json, age: '42' }, User))
+    assert.equal(error.code, 'TYPE_MISMATCH')
+    assert.equal(error.target, 'User')
+    assert.equal(error.path, '/age')
+    assert.equal(error.expected, 'Number')
+    assert.equal(error.received, 'String')
+    assert.equal(error.message, 'Type of "age" in JSON is "String", but User expects "Number"')
+  })
+
+  it('should describe missing property in nested class', () => {
+    const error = catchError(() => Transformer.fromJSON({ ...json, address: {} }, User))
+    assert.equal(error.code, 'MISSING_PROPERTY')
+    assert.equal(error.target, 'Address')
+    assert.equal(error.path, '/address/city')
+    assert.equal(error.received, 'undefined')
+  })
+
+  it('should describe invalid date', () => {
+    const error = catchError(() => Transformer.fromJSON({ ...json, born: 1 }, User))
+    assert.equal(error.code, 'INVALID_DATE')
+    assert.equal(error.expected, 'Date')
+    assert.equal(error.received, 'Number')
+  })
+
+  it('should describe invalid collection elements with cause', () => {
+    const error = catchError(() => Transformer.fromJSON({ ...json, tags: [{}] }, User))
+    assert.equal(error.code, 'INVALID_ELEMENTS')
+    assert.equal(error.path, '/tags')
+    const cause = error.cause as TransformError
+    assert.equal(cause.code, 'INVALID_DATE')
+    assert.equal(cause.received, 'Object')
+    assert.equal(cause.path, '/tags/0')
+  })
+
+  it('should describe invalid json and constructor', () => {
+    assert.equal(catchError(() => Transformer.fromJSON('', User)).code, 'INVALID_JSON')
+    class Broken {
+      constructor() { throw new Error('broken') }
+    }
+    assert.equal(catchError(() => Transformer.fromJSON({}, Broken)).code, 'INVALID_CONSTRUCTOR')
+  })
+
+  it('should be created without details', () => {
+    const error = new TransformError('failed')
+    assert.equal(error.message, 'failed')
+    assert.equal(error.name, 'TransformError')
+    assert.equal(error.code, 'UNKNOWN')
+    assert.equal(error.target, '')
+    assert.equal(error.path, '')
+    class CustomError extends TransformError {}
+    assert.equal(new CustomError('custom').name, 'CustomError')
+  })
+})
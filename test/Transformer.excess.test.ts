@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import { ExcessPolicy, Schema, Transformer, TransformAggregateError, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Address {
+  city = ''
+}
+
+class User {
+  name = ''
+  address = new Address()
+}
+
+class Strict {
+  static excess: ExcessPolicy = 'reject'
+  name = ''
+}
+
+class Event {
+  static types: Schema<Event> = { extra: { capture: true } }
+  name = ''
+  extra: Record<string, unknown> = {}
+}
+
+class Click {
+  x = 0
+}
+
+class Page {
+  static types: Schema<Page> = { events: { of: { discriminator: 'kind', mapping: { click: Click } } } }
+  events: Click[] = []
+}
+
+describe('Excess properties', () => {
+  it('should ignore unknown properties by default', () => {
+    assert.equal(Transformer.fromJSON({ name: 'Jane', nmae: 'typo', address: { city: '' } }, User).name, 'Jane')
+  })
+
+  it('should reject unknown properties and list them', () => {
+    assert.throws(() => Transformer.fromJSON({ name: '', nmae: '', address: { city: '', zip: 1 } }, User, { excess: 'reject' }), (error: TransformError) => {
+      assert.ok(error instanceof TransformError)
+      assert.equal(error.code, 'EXCESS_PROPERTY')
+      assert.equal(error.path, '/address')
+      assert.deepEqual(error.keys, ['zip'])
+      assert.equal(error.message, 'Unknown properties in JSON for Address: "zip"')
+      return true
+    })
+    assert.throws(() => Transformer.fromJSON({ name: '', nmae: '', age: 1, address: { city: '', zip: 1 } }, User, { excess: 'reject', collect: true }), (error: TransformAggregateError) => {
+      assert.ok(error instanceof TransformAggregateError)
+      assert.deepEqual(error.issues.map(({ path, keys }) => ({ path, keys })), [{ path: '/address', keys: ['zip'] }, { path: '', keys: ['nmae', 'age'] }])
+      return true
+    })
+  })
+
+  it('should prefer policy declared in class', () => {
+    const rejected = (error: TransformError) => error instanceof TransformError && error.code === 'EXCESS_PROPERTY'
+    assert.throws(() => Transformer.fromJSON({ name: '', age: 1 }, Strict), rejected)
+    assert.throws(() => Transformer.fromJSON({ name: '', age: 1 }, Strict, { excess: 'ignore' }), rejected)
+  })
+
+  it('should not treat discriminator and references as unknown properties', () => {
+    const page = Transformer.fromJSON({ events: [{ kind: 'click', x: 1 }] }, Page, { excess: 'reject' })
+    assert.equal(page.events[0].x, 1)
+    const user = Transformer.fromJSON({ $id: '1', name: '', address: { city: '' } }, User, { excess: 'reject', references: true })
+    assert.equal(user.name, '')
+  })
+
+  it('should capture unknown properties and write them back', () => {
+    const json = { name: 'click', x: 1, meta: { source: 'web' } }
+    const event = Transformer.fromJSON(json, Event)
+    assert.deepEqual(event.extra, { x: 1, meta: { source: 'web' } })
+    assert.deepEqual(Transformer.toJSON(event), json)
+    event.name = 'scroll'
+    Reflect.set(event.extra, 'name', 'ignored')
+    assert.deepEqual(Transformer.toJSON(event), { ...json, name: 'scroll' })
+  })
+
+  it('should add captured properties in merge mode', () => {
+    const event = Transformer.fromJSON({ name: 'click', x: 1 }, Event)
+    Transformer.merge(event, { y: 2 })
+    assert.deepEqual(event.extra, { x: 1, y: 2 })
+  })
+
+  it('should forbid additional properties in JSON Schema of class, which rejects them', () => {
+    const { $defs } = Transformer.toJSONSchema(Strict)
+    assert.equal($defs!.Strict.additionalProperties, false)
+    assert.equal(Transformer.toJSONSchema(Event).$defs!.Event.properties!.extra, undefined)
+  })
+})
@@ -0,0 +1,147 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Money {
+  static types: Schema<Money> = { amount: { type: Number }, currency: { type: String } }
+  static parameters = ['amount', 'currency']
+
+  readonly amount: number
+  readonly currency: string
+
+  constructor(amount: number, currency: string) {
+    this.amount = amount
+    this.currency = currency.toUpperCase()
+    Object.freeze(this)
+  }
+}
+
+class Email {
+  static factory(values: { address: string }) {
+    return new Email(values.address)
+  }
+
+  constructor(readonly address = '') {
+    Object.freeze(this)
+  }
+}
+
+class Order {
+  static types: Schema<Order> = { total: { type: Money }, tags: { of: String } }
+  id = 0
+  total: Money | null = null
+  email = new Email()
+  tags: string[] = []
+}
+
+class Broken {
+  static factory(): Broken {
+    throw new Error('Not today')
+  }
+
+  name = ''
+}
+
+describe('Transformer: factories and freeze', () => {
+  it('passes transformed values to constructor by parameters', () => {
+    const money = Transformer.fromJSON({ amount: 10, currency: 'eur' }, Money)
+    assert.ok(money instanceof Money)
+    assert.equal(money.amount, 10)
+    assert.equal(money.currency, 'EUR')
+    assert.ok(Object.isFrozen(money))
+  })
+
+  it('passes transformed values to static factory', () => {
+    const email = Transformer.fromJSON({ address: 'a@b.c' }, Email)
+    assert.ok(email instanceof Email)
+    assert.equal(email.address, 'a@b.c')
+  })
+
+  it('creates nested immutable objects', () => {
+    const order = Transformer.fromJSON({ id: 1, total: { amount: 5, currency: 'usd' }, email: { address: 'a@b.c' }, tags: ['x'] }, Order)
+    assert.ok(order.total instanceof Money)
+    assert.equal(order.total.currency, 'USD')
+    assert.equal(order.email.address, 'a@b.c')
+  })
+
+  it('checks types of values before they are passed to factory', () => {
+    assert.throws(() => Transformer.fromJSON({ amount: '10', currency: 'eur' }, Money), (error: TransformError) => {
+      return error instanceof TransformError && error.code === 'TYPE_MISMATCH' && error.path === '/amount'
+    })
+  })
+
+  it('wraps errors of factory', () => {
+    assert.throws(() => Transformer.fromJSON({ order: { name: 'x' } }, class { static types = { order: { type: Broken } }; order: Broken | null = null }), (error: TransformError) => {
+      assert.ok(error instanceof TransformError)
+      assert.equal(error.code, 'INVALID_CONSTRUCTOR')
+      assert.equal(error.path, '/order')
+      assert.ok(error.message.includes('Not today'))
+      return true
+    })
+  })
+
+  it('replaces immutable objects in merge mode', () => {
+    const order = Transformer.fromJSON({ id: 1, total: { amount: 5, currency: 'usd' }, email: { address: 'a@b.c' }, tags: [] }, Order)
+    const total = order.total
+    Transformer.merge(order, { total: { amount: 7 } })
+    assert.notEqual(order.total, total)
+    assert.deepEqual({ ...order.total }, { amount: 7, currency: 'USD' })
+  })
+
+  it('resolves references to objects created by factory', () => {
+    class Pair {
+      static types: Schema<Pair> = { first: { type: Money }, second: { type: Money } }
+      first: Money | null = null
+      second: Money | null = null
+    }
+    const pair = Transformer.fromJSON({ first: { $id: '1', amount: 1, currency: 'eur' }, second: { $ref: '1' } }, Pair, { references: true })
+    assert.equal(pair.first, pair.second)
+  })
+
+  it('deep-freezes result', () => {
+    const order = Transformer.fromJSON({ id: 1, total: null, email: { address: 'a@b.c' }, tags: ['x'] }, Order, { freeze: true })
+    assert.ok(Object.isFrozen(order))
+    assert.ok(Object.isFrozen(order.tags))
+    assert.throws(() => order.tags.push('y'), TypeError)
+    assert.ok(!Reflect.set(order, 'id', 2))
+  })
+
+  it('locks collections and dates of frozen result', () => {
+    class Schedule {
+      static types: Schema<Schedule> = { slots: { of: Date } }
+      start = new Date(0)
+      slots: Date[] = []
+      labels = new Map<string, string>()
+      days = new Set<number>()
+    }
+    const json = { start: '2024-01-01T00:00:00.000Z', slots: ['2024-01-02T00:00:00.000Z'], labels: { a: 'A' }, days: [1] }
+    const schedule = Transformer.fromJSON(json, Schedule, { freeze: true })
+    assert.throws(() => schedule.start.setFullYear(2000), TypeError)
+    assert.throws(() => schedule.slots[0].setTime(0), TypeError)
+    assert.throws(() => schedule.labels.set('b', 'B'), TypeError)
+    assert.throws(() => schedule.labels.clear(), TypeError)
+    assert.throws(() => schedule.days.add(2), TypeError)
+    assert.throws(() => schedule.days.delete(1), TypeError)
+    assert.equal(schedule.labels.get('a'), 'A')
+    assert.deepEqual(Transformer.toJSON(schedule), json)
+    assert.ok(Transformer.equals(schedule, Transformer.fromJSON(json, Schedule)))
+  })
+
+  it('rejects freeze of binary data', () => {
+    class File {
+      content = new Uint8Array()
+    }
+    assert.throws(() => Transformer.fromJSON({ content: 'AQI=' }, File, { freeze: true }), TypeError)
+  })
+
+  it('does not freeze result by default', () => {
+    const order = Transformer.fromJSON({ id: 1, total: null, email: { address: 'a@b.c' }, tags: [] }, Order)
+    assert.ok(!Object.isFrozen(order))
+  })
+
+  it('compiles and describes classes with factory', () => {
+    Transformer.compile(Order)
+    const schema = Transformer.toJSONSchema(Money)
+    assert.deepEqual(Object.keys(schema.$defs!.Money.properties!), ['amount', 'currency'])
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Profile {
+  bio = ''
+  internal = ''
+}
+
+class Person {
+  firstName = ''
+  lastName = ''
+
+  get fullName() {
+    return `${this.firstName} ${this.lastName}`
+  }
+}
+
+class User extends Person {
+  static types: Schema<User> = {
+    passwordHash: { groups: ['admin', 'persistence'] },
+    email: { groups: ['admin'] },
+    cache: { exclude: true }
+  }
+
+  id = 0
+  email = ''
+  passwordHash = ''
+  cache = ''
+  profile = new Profile()
+
+  get initials() {
+    return `${this.firstName[0]}${this.lastName[0]}`
+  }
+}
+
+const json = {
+  firstName: 'Jane',
+  lastName: 'Doe',
+  id: 1,
+  email: 'jane@example.com',
+  passwordHash: 'secret',
+  cache: 'stale',
+  profile: { bio: 'hello', internal: 'x' }
+}
+
+describe('Groups', () => {
+  it('should write properties with groups only if one of groups is selected', () => {
+    const user = Transformer.fromJSON(json, User, { groups: ['admin'], include: ['cache'] })
+    const { passwordHash, email, cache, ...publicJSON } = json
+    assert.deepEqual(Transformer.toJSON(user), publicJSON)
+    assert.deepEqual(Transformer.toJSON(user, { groups: ['persistence'] }), { ...publicJSON, passwordHash })
+    assert.deepEqual(Transformer.toJSON(user, { groups: ['admin'] }), { ...publicJSON, email, passwordHash })
+  })
+
+  it('should exclude and include properties by name, in nested objects too', () => {
+    const user = Transformer.fromJSON(json, User, { groups: ['admin'], include: ['cache'] })
+    const plain = Transformer.toJSON(user, { exclude: ['id', 'internal'], include: ['cache'] })
+    assert.deepEqual(plain, { firstName: 'Jane', lastName: 'Doe', cache: 'stale', profile: { bio: 'hello' } })
+  })
+
+  it('should restrict properties accepted by fromJSON', () => {
+    const user = Transformer.fromJSON(json, User)
+    assert.equal(user.email, '')
+    assert.equal(user.passwordHash, '')
+    assert.equal(user.cache, '')
+    const admin = Transformer.fromJSON(json, User, { groups: ['admin'] })
+    assert.equal(admin.email, json.email)
+    assert.equal(admin.passwordHash, json.passwordHash)
+  })
+
+  it('should not require excluded properties in strict mode', () => {
+    const { id, profile, ...rest } = json
+    const user = Transformer.fromJSON({ ...rest, profile: { bio: '' } }, User, { exclude: ['id', 'internal'] })
+    assert.equal(user.id, 0)
+  })
+
+  it('should write getters of class and its parents if requested', () => {
+    const user = Transformer.fromJSON(json, User)
+    const plain = Transformer.toJSON(user, { getters: true })
+    assert.equal(Reflect.get(plain, 'fullName'), 'Jane Doe')
+    assert.equal(Reflect.get(plain, 'initials'), 'JD')
+    assert.equal(Reflect.has(Transformer.toJSON(user), 'fullName'), false)
+    assert.equal(Reflect.has(Transformer.toJSON(user, { getters: true, exclude: ['initials'] }), 'initials'), false)
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import { LifecycleHooks, Schema, Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+const calls: string[] = []
+
+class Phone implements LifecycleHooks {
+  static beforeHydrate(json: any) {
+    calls.push('Phone.beforeHydrate')
+    // legacy phones are strings inside of object
+    return typeof json.value === 'number' ? { value: String(json.value) } : json
+  }
+
+  value = ''
+
+  afterHydrate() {
+    calls.push('Phone.afterHydrate')
+  }
+
+  afterSerialize(json: Record<string, unknown>) {
+    calls.push('Phone.afterSerialize')
+    return { ...json, masked: `***${this.value.slice(-2)}` }
+  }
+}
+
+class Person implements LifecycleHooks {
+  static types: Schema<Person> = { phones: { of: Phone } }
+
+  static beforeHydrate(json: any) {
+    calls.push('Person.beforeHydrate')
+    // legacy json has single name
+    if (typeof json.name !== 'string') return json
+    const [firstName, lastName] = json.name.split(' ')
+    return { firstName, lastName, phones: json.phones }
+  }
+
+  firstName = ''
+  lastName = ''
+  fullName = ''
+  phones: Phone[] = []
+
+  afterHydrate() {
+    calls.push('Person.afterHydrate')
+    this.fullName = `${this.firstName} ${this.lastName}`
+  }
+
+  beforeSerialize() {
+    calls.push('Person.beforeSerialize')
+    this.fullName = `${this.firstName} ${this.lastName}`
+  }
+}
+
+describe('Lifecycle hooks', () => {
+  it('should call hooks of class and collection elements during fromJSON', () => {
+    calls.length = 0
+    const person = Transformer.fromJSON({ name: 'Jane Doe', fullName: '', phones: [{ value: 1234 }] }, Person, false)
+    assert.equal(person.firstName, 'Jane')
+    assert.equal(person.fullName, 'Jane Doe')
+    assert.equal(person.phones[0].value, '1234')
+    assert.deepEqual(calls, ['Person.beforeHydrate', 'Phone.beforeHydrate', 'Phone.afterHydrate', 'Person.afterHydrate'])
+  })
+
+  it('should call hooks during toJSON', () => {
+    const person = Transformer.fromJSON({ firstName: 'Jane', lastName: 'Doe', fullName: '', phones: [{ value: '1234' }] }, Person)
+    person.lastName = 'Smith'
+    calls.length = 0
+    const json = Transformer.toJSON(person)
+    assert.deepEqual(json, { firstName: 'Jane', lastName: 'Smith', fullName: 'Jane Smith', phones: [{ value: '1234', masked: '***34' }] })
+    assert.deepEqual(calls, ['Person.beforeSerialize', 'Phone.afterSerialize'])
+  })
+
+  it('should wrap errors of hooks', () => {
+    class Broken {
+      name = ''
+      afterHydrate() {
+        throw new Error('oops')
+      }
+    }
+    class Owner {
+      broken = new Broken()
+    }
+    assert.throws(() => Transformer.fromJSON({ broken: { name: '' } }, Owner), (error: TransformError) => {
+      assert.equal(error.code, 'HOOK_FAILED')
+      assert.equal(error.path, '/broken')
+      assert.equal(error.target, 'Broken')
+      assert.equal((error.cause as Error).message, 'oops')
+      return true
+    })
+  })
+
+  it('should throw when beforeHydrate returns not an object', () => {
+    class Legacy {
+      static beforeHydrate() {
+        return null
+      }
+      name = ''
+    }
+    assert.throws(() => Transformer.fromJSON({}, Legacy), (error: TransformError) => error.code === 'INVALID_JSON')
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformAggregateError, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Money {
+  constructor(readonly cents = 0n, readonly currency = 'EUR') {}
+}
+
+class Product {
+  static types: Schema<Product> = { price: { type: Money }, mirrors: { of: URL }, released: { type: Date } }
+  name = ''
+  homepage = new URL('https://example.com')
+  price: Money | null = null
+  mirrors: URL[] = []
+  patterns = new Map<RegExp, string>()
+  released: Date | null = null
+}
+
+function createTransformer() {
+  return new Transformer({ naming: 'snake_case', date: { input: ['iso', 'epoch-ms'], output: 'epoch-ms' } })
+    .register(URL, { deserialize: value => new URL(value), serialize: url => url.href, schema: { type: 'string', format: 'uri' } })
+    .register(RegExp, { deserialize: value => new RegExp(value), serialize: regexp => regexp.source })
+    .register(Money, {
+      deserialize: value => {
+        const [amount, currency] = String(value).split(' ')
+        return new Money(BigInt(amount), currency)
+      },
+      serialize: money => `${money.cents} ${money.currency}`
+    })
+}
+
+const json = {
+  name: 'Tool',
+  homepage: 'https://tool.dev/',
+  price: '1500 USD',
+  mirrors: ['https://a.dev/', 'https://b.dev/'],
+  patterns: { '^a': 'starts with a' },
+  released: 1715941800000
+}
+
+describe('Transformer: instances and converters', () => {
+  it('uses registered converters for initial values, declared types and collection elements', () => {
+    const product = createTransformer().fromJSON(json, Product)
+    assert.ok(product.homepage instanceof URL)
+    assert.equal(product.homepage.hostname, 'tool.dev')
+    assert.deepEqual(product.price, new Money(1500n, 'USD'))
+    assert.ok(product.mirrors.every(mirror => mirror instanceof URL))
+    assert.equal(product.released?.getTime(), 1715941800000)
+  })
+
+  it('uses registered converters for keys of Map', () => {
+    class Router {
+      static types: Schema<Router> = { routes: { keys: RegExp } }
+      routes = new Map<RegExp, string>()
+    }
+    const router = createTransformer().fromJSON({ routes: { '^users': 'users' } }, Router)
+    const [pattern] = router.routes.keys()
+    assert.ok(pattern instanceof RegExp)
+    assert.deepEqual(createTransformer().toJSON(router), { routes: { '^users': 'users' } })
+  })
+
+  it('writes values with registered converters and options of instance', () => {
+    const transformer = createTransformer()
+    const product = transformer.fromJSON(json, Product)
+    assert.deepEqual(transformer.toJSON(product), json)
+  })
+
+  it('keeps own options and converters of every instance', () => {
+    const product = createTransformer().fromJSON(json, Product)
+    const plain = Transformer.toJSON(product) as Record<string, unknown>
+    assert.deepEqual(plain.homepage, {})
+    assert.equal(plain.released, '2024-05-17T10:30:00.000Z')
+    assert.throws(() => Transformer.fromJSON(json, Product), TransformError)
+  })
+
+  it('uses default strict mode of instance', () => {
+    class User {
+      age = 0
+    }
+    const loose = new Transformer({ strict: false })
+    assert.deepEqual(loose.fromJSON({ age: '42' }, User), new User())
+    assert.throws(() => loose.fromJSON({ age: '42' }, User, true), TransformError)
+    assert.deepEqual(loose.toJSONSchema(User).$defs!.User.required, [])
+  })
+
+  it('reports failed registered converters', () => {
+    let aggregate: TransformAggregateError | undefined
+    try {
+      createTransformer().fromJSON({ ...json, homepage: 'not url', mirrors: ['nope'] }, Product, { collect: true })
+    } catch (e) {
+      aggregate = e as TransformAggregateError
+    }
+    assert.ok(aggregate instanceof TransformAggregateError)
+    assert.deepEqual(aggregate.issues.map(({ code, path }) => ({ code, path })), [
+      { code: 'CONVERTER_FAILED', path: '/homepage' },
+      { code: 'CONVERTER_FAILED', path: '/mirrors/0' }
+    ])
+  })
+
+  it('describes registered types in JSON Schema', () => {
+    const schema = createTransformer().toJSONSchema(Product)
+    const { properties } = schema.$defs!.Product
+    assert.deepEqual(properties!.homepage, { type: 'string', format: 'uri' })
+    assert.deepEqual(properties!.mirrors, { type: 'array', items: { type: 'string', format: 'uri' } })
+    assert.deepEqual(properties!.price, {})
+  })
+
+  it('uses converters registered after compilation', () => {
+    class Link {
+      href = new URL('https://example.com')
+    }
+    const transformer = new Transformer()
+    const compiled = transformer.compile(Link)
+    transformer.register(URL, { deserialize: value => new URL(value), serialize: url => url.href })
+
+    const link = compiled.fromJSON({ href: 'https://tool.dev/' })
+    assert.ok(link.href instanceof URL)
+    assert.deepEqual(transformer.toJSON(link), { href: 'https://tool.dev/' })
+  })
+
+  it('keeps static API as default instance', () => {
+    assert.ok(Transformer.default instanceof Transformer)
+    Transformer.naming = 'kebab-case'
+    try {
+      assert.equal(Transformer.default.naming, 'kebab-case')
+    } finally {
+      Transformer.naming = undefined
+    }
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Point {
+  x = 0
+  y = 0
+}
+
+class Board {
+  static types: Schema<Board> = {
+    scores: { keys: Number },
+    flags: { keys: Boolean },
+    daily: { keys: Date, of: Number },
+    epochs: { keys: { type: Date, date: { input: 'epoch-ms', output: 'epoch-ms' } } },
+    cells: { keys: Point, of: String, entries: true }
+  }
+
+  scores = new Map<number, string>()
+  flags = new Map<boolean, number>()
+  daily = new Map<Date, number>()
+  epochs = new Map<Date, string>()
+  cells = new Map<Point, string>()
+}
+
+const json = {
+  scores: { 1: 'one', 2.5: 'two and a half' },
+  flags: { true: 1, false: 0 },
+  daily: { '2024-05-17T00:00:00.000Z': 3 },
+  epochs: { 1000: 'second' },
+  cells: [[{ x: 1, y: 2 }, 'A']]
+}
+
+describe('Map keys', () => {
+  it('should convert keys of json object to declared type', () => {
+    const board = Transformer.fromJSON(json, Board)
+    assert.deepEqual([...board.scores.keys()], [1, 2.5])
+    assert.deepEqual([...board.flags.keys()], [true, false])
+    assert.deepEqual([...board.daily.keys()], [new Date('2024-05-17')])
+    assert.deepEqual([...board.epochs.keys()], [new Date(1000)])
+  })
+
+  it('should read and write maps as arrays of entries', () => {
+    const board = Transformer.fromJSON(json, Board)
+    const [[point, value]] = board.cells
+    assert.ok(point instanceof Point)
+    assert.equal(value, 'A')
+    assert.deepEqual(Transformer.toJSON(board), json)
+  })
+
+  it('should accept entries for maps written as objects', () => {
+    const board = Transformer.fromJSON({ ...json, scores: [[3, 'three']] }, Board)
+    assert.equal(board.scores.get(3), 'three')
+  })
+
+  it('should throw when key can not be converted', () => {
+    assert.throws(() => Transformer.fromJSON({ ...json, scores: { one: 'one' } }, Board), (error: TransformError) => {
+      assert.ok(error instanceof TransformError)
+      assert.equal(error.code, 'INVALID_ELEMENTS')
+      assert.equal((error.cause as TransformError).code, 'TYPE_MISMATCH')
+      assert.equal((error.cause as TransformError).path, '/scores/one')
+      return true
+    })
+    assert.throws(() => Transformer.fromJSON({ ...json, flags: { yes: 1 } }, Board), (error: TransformError) => {
+      return error instanceof TransformError && (error.cause as TransformError).expected === 'Boolean'
+    })
+    assert.throws(() => Transformer.fromJSON({ ...json, cells: [[{ x: 1, y: 2 }]] }, Board), (error: TransformError) => {
+      return error instanceof TransformError && (error.cause as TransformError).path === '/cells/0'
+    })
+  })
+
+  it('should throw when key can not be written as key of json object', () => {
+    const value = { index: new Map([[new Point(), 1]]) }
+    assert.throws(() => Transformer.toJSON(value), (error: TransformError) => {
+      return error instanceof TransformError && error.code === 'INVALID_KEY' && error.path === '/index'
+    })
+  })
+
+  it('should describe entries in JSON Schema', () => {
+    const { properties } = Transformer.toJSONSchema(Board).$defs!.Board
+    assert.deepEqual(properties!.cells, {
+      type: 'array',
+      items: { type: 'array', prefixItems: [{ $ref: '#/$defs/Point' }, { type: 'string' }], minItems: 2, maxItems: 2 }
+    })
+  })
+})
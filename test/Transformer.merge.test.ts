@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Address {
+  city = ''
+  street = ''
+}
+
+class Tag {
+  name = ''
+}
+
+class User {
+  static types: Schema<User> = {
+    phone: { type: String },
+    tags: { of: Tag },
+    history: { merge: 'append' }
+  }
+
+  name = ''
+  age = 0
+  phone: string | null = null
+  address = new Address()
+  tags: Tag[] = []
+  roles = new Set<string>()
+  history: string[] = []
+  born = new Date(0)
+}
+
+function user() {
+  return Transformer.fromJSON({
+    name: 'Jane',
+    age: 30,
+    phone: '123',
+    address: { city: 'Paris', street: 'Rivoli' },
+    tags: [{ name: 'a' }],
+    roles: ['user'],
+    history: ['created'],
+    born: '1990-01-01T00:00:00.000Z'
+  }, User)
+}
+
+describe('Merge', () => {
+  it('should update only properties, which exist in json', () => {
+    const target = user()
+    const address = target.address
+    const merged = Transformer.merge(target, { age: 31, address: { city: 'Lyon' } })
+    assert.equal(merged, target)
+    assert.equal(target.name, 'Jane')
+    assert.equal(target.age, 31)
+    // nested object is updated instead of being replaced
+    assert.equal(target.address, address)
+    assert.deepEqual({ ...target.address }, { city: 'Lyon', street: 'Rivoli' })
+  })
+
+  it('should replace collections by default, and append with strategy', () => {
+    const target = user()
+    Transformer.merge(target, { tags: [{ name: 'b' }], roles: ['admin'], history: ['updated'] })
+    assert.deepEqual(target.tags.map(tag => tag.name), ['b'])
+    assert.ok(target.tags[0] instanceof Tag)
+    assert.deepEqual([...target.roles], ['admin'])
+    assert.deepEqual(target.history, ['created', 'updated'])
+    Transformer.merge(target, { roles: ['owner'] }, { collections: 'append' })
+    assert.deepEqual([...target.roles], ['admin', 'owner'])
+  })
+
+  it('should clear nullable properties with null', () => {
+    const target = user()
+    Transformer.merge(target, { phone: null, age: null })
+    assert.equal(target.phone, null)
+    assert.equal(target.age, 30)
+  })
+
+  it('should check types as fromJSON', () => {
+    const target = user()
+    assert.throws(() => Transformer.merge(target, { age: '31' }), (error: TransformError) => {
+      assert.equal(error.code, 'TYPE_MISMATCH')
+      assert.equal(error.path, '/age')
+      return true
+    })
+    assert.throws(() => Transformer.merge(target, { address: { city: 1 } }), (error: TransformError) => error.path === '/address/city')
+    // new elements are created from scratch, so their properties are required
+    assert.throws(() => Transformer.merge(target, { tags: [{}] }), (error: TransformError) => error.code === 'INVALID_ELEMENTS')
+    Transformer.merge(target, { age: '31', name: 'Joan' }, false)
+    assert.equal(target.age, 30)
+    assert.equal(target.name, 'Joan')
+  })
+
+  it('should leave target unchanged when merge fails', () => {
+    const target = user()
+    const expected = user()
+    const address = target.address
+    const history = target.history
+    assert.throws(() => Transformer.merge(target, { name: 'Joan', address: { city: 'Lyon' }, history: ['updated'], age: '31' }), TransformError)
+    assert.throws(() => Transformer.merge(target, { name: 'Joan', address: { city: 1 } }), TransformError)
+    assert.deepEqual(target, expected)
+    assert.equal(target.address, address)
+    assert.equal(target.history, history)
+  })
+
+  it('should return updated copy of frozen instance', () => {
+    const json = Transformer.toJSON(user()) as Object
+    const target = Transformer.fromJSON(json, User, { freeze: true })
+    const merged = Transformer.merge(target, { age: 31, address: { city: 'Lyon' }, history: ['updated'] })
+    assert.notEqual(merged, target)
+    assert.ok(merged instanceof User && merged.address instanceof Address)
+    assert.equal(merged.age, 31)
+    assert.deepEqual({ ...merged.address }, { city: 'Lyon', street: 'Rivoli' })
+    assert.deepEqual(merged.history, ['created', 'updated'])
+    assert.equal(merged.name, 'Jane')
+    assert.deepEqual(Transformer.toJSON(target), json)
+  })
+
+  it('should merge with compiled transformer', () => {
+    const target = user()
+    Transformer.compile(User).merge(target, { born: '2000-01-01T00:00:00.000Z' })
+    assert.equal(target.born.getUTCFullYear(), 2000)
+  })
+})
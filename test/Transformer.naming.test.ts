@@ -0,0 +1,57 @@
+import { afterEach, describe, it } from 'node:test';
+import { Schema, Transformer } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Address {
+  zipCode = ''
+}
+
+class User {
+  static types: Schema<User> = { userID: { key: 'id' } }
+  userID = 0
+  firstName = ''
+  homeAddress = new Address()
+  tags = new Map<string, string>()
+}
+
+describe('Property names mapping', () => {
+  afterEach(() => {
+    Transformer.naming = undefined
+  })
+
+  it('should use key declared in TypeDescriptor', () => {
+    const json = { id: 1, firstName: 'John', homeAddress: { zipCode: '1' }, tags: {} }
+    const user = Transformer.fromJSON(json, User)
+    assert.equal(user.userID, 1)
+    assert.deepEqual(Transformer.toJSON(user), json)
+  })
+
+  it('should round trip with snake_case naming strategy', () => {
+    Transformer.naming = 'snake_case'
+    const json = { id: 1, first_name: 'John', home_address: { zip_code: '1' }, tags: { someTag: 'a' } }
+    const user = Transformer.fromJSON(json, User)
+    assert.equal(user.firstName, 'John')
+    assert.equal(user.homeAddress.zipCode, '1')
+    assert.equal(user.tags.get('someTag'), 'a')
+    assert.deepEqual(Transformer.toJSON(user), json)
+  })
+
+  it('should support kebab-case, PascalCase and custom naming strategies', () => {
+    Transformer.naming = 'kebab-case'
+    assert.deepEqual(Object.keys(Transformer.toJSON(new User())), ['id', 'first-name', 'home-address', 'tags'])
+    Transformer.naming = 'PascalCase'
+    assert.deepEqual(Object.keys(Transformer.toJSON(new User())), ['id', 'FirstName', 'HomeAddress', 'Tags'])
+    Transformer.naming = property => property.toUpperCase()
+    assert.deepEqual(Object.keys(Transformer.toJSON(new User())), ['id', 'FIRSTNAME', 'HOMEADDRESS', 'TAGS'])
+  })
+
+  it('should report json names in issues', () => {
+    Transformer.naming = 'snake_case'
+    try {
+      Transformer.fromJSON({ id: 1, first_name: 1, home_address: { zip_code: '1' }, tags: {} }, User)
+      assert.fail('should throw')
+    } catch (error) {
+      assert.equal(Reflect.get(error as Object, 'path'), '/first_name')
+    }
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformAggregateError, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Tag {
+  name = ''
+}
+
+class Item {
+  price = 0
+}
+
+class Catalog {
+  static types: Schema<Catalog> = {
+    matrix: { of: { of: Number } },
+    tags: { of: { type: Set, of: Tag } },
+    pages: { of: { type: Map, of: Item } },
+    schedule: { of: { of: { type: Date, date: { input: 'epoch-ms', output: 'epoch-ms' } } } }
+  }
+
+  matrix: number[][] = []
+  tags = new Map<string, Set<Tag>>()
+  pages: Array<Map<string, Item>> = []
+  schedule = new Map<string, Date[]>()
+}
+
+const json = {
+  matrix: [[1, 2], [3]],
+  tags: { red: [{ name: 'a' }, { name: 'b' }] },
+  pages: [{ first: { price: 1 } }, {}],
+  schedule: { monday: [0, 1000] }
+}
+
+describe('Nested collections', () => {
+  it('should transform nested collections declared by nested descriptors', () => {
+    const catalog = Transformer.fromJSON(json, Catalog)
+    assert.deepEqual(catalog.matrix, [[1, 2], [3]])
+    const red = catalog.tags.get('red')!
+    assert.ok(red instanceof Set)
+    assert.ok([...red].every(tag => tag instanceof Tag))
+    assert.ok(catalog.pages[0] instanceof Map)
+    assert.ok(catalog.pages[0].get('first') instanceof Item)
+    assert.deepEqual(catalog.schedule.get('monday'), [new Date(0), new Date(1000)])
+  })
+
+  it('should write nested collections', () => {
+    assert.deepEqual(Transformer.toJSON(Transformer.fromJSON(json, Catalog)), json)
+  })
+
+  it('should write nested collections without descriptors as arrays and objects', () => {
+    const value = { grid: [[1], new Set([2])], index: new Map([['a', new Map([['b', 1]])]]) }
+    assert.deepEqual(Transformer.toJSON(value), { grid: [[1], [2]], index: { a: { b: 1 } } })
+  })
+
+  it('should report path of invalid element in nested collection', () => {
+    assert.throws(() => Transformer.fromJSON({ ...json, tags: { red: [{ name: 'a' }, { name: 1 }] } }, Catalog), (error: TransformError) => {
+      assert.ok(error instanceof TransformError)
+      assert.equal(error.code, 'INVALID_ELEMENTS')
+      assert.equal(error.path, '/tags')
+      let cause = error.cause as TransformError
+      while (cause.cause instanceof TransformError) cause = cause.cause
+      assert.equal(cause.code, 'TYPE_MISMATCH')
+      assert.equal(cause.path, '/tags/red/1/name')
+      return true
+    })
+  })
+
+  it('should report paths of all invalid elements in collect mode', () => {
+    const tags = { red: [{ name: 1 }, { name: 'b' }], blue: [{ name: 'c' }, { name: 2 }] }
+    assert.throws(() => Transformer.fromJSON({ ...json, tags, pages: [{}, { last: { price: '3' } }] }, Catalog, { collect: true }), (error: TransformAggregateError) => {
+      assert.ok(error instanceof TransformAggregateError)
+      assert.deepEqual(error.issues.map(issue => issue.path), ['/tags/red/0/name', '/tags/blue/1/name', '/pages/1/last/price'])
+      return true
+    })
+  })
+
+  it('should throw when nested collection in json has wrong type', () => {
+    assert.throws(() => Transformer.fromJSON({ ...json, pages: [1] }, Catalog), (error: TransformError) => {
+      assert.ok(error instanceof TransformError)
+      const cause = error.cause as TransformError
+      assert.equal(cause.code, 'TYPE_MISMATCH')
+      assert.equal(cause.path, '/pages/0')
+      assert.equal(cause.expected, 'Map')
+      return true
+    })
+  })
+
+  it('should use compiled nested classes', () => {
+    const compiled = Transformer.compile(Catalog)
+    assert.deepEqual(compiled.toJSON(compiled.fromJSON(json)), json)
+  })
+
+  it('should describe nested collections in JSON Schema', () => {
+    const { $defs } = Transformer.toJSONSchema(Catalog)
+    const { properties } = $defs!.Catalog
+    assert.deepEqual(properties!.matrix, { type: 'array', items: { type: 'array', items: { type: 'number' } } })
+    assert.deepEqual(properties!.tags, {
+      type: 'object',
+      additionalProperties: { type: 'array', items: { $ref: '#/$defs/Tag' }, uniqueItems: true }
+    })
+    assert.deepEqual(properties!.schedule, { type: 'object', additionalProperties: { type: 'array', items: { type: 'number' } } })
+  })
+})
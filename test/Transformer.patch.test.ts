@@ -0,0 +1,174 @@
+import { describe, it } from 'node:test';
+import { PatchOperation, Schema, Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Address {
+  city = ''
+  street = ''
+}
+
+class User {
+  static types: Schema<User> = { addresses: { of: Address }, birthday: { type: Date }, parent: { type: User } }
+  firstName = ''
+  age = 0
+  tags = new Set<string>()
+  scores = new Map<string, number>()
+  addresses: Address[] = []
+  birthday: Date | null = null
+  avatar = new Uint8Array()
+  parent: User | null = null
+}
+
+function createUser() {
+  return Transformer.fromJSON({
+    firstName: 'Jane',
+    age: 30,
+    tags: ['admin'],
+    scores: { math: 5 },
+    addresses: [{ city: 'Paris', street: 'Rivoli' }],
+    birthday: '1990-05-17T00:00:00.000Z',
+    avatar: 'AQID',
+    parent: null
+  }, User)
+}
+
+describe('Transformer: clone, equals, diff and patch', () => {
+  it('clones instances with their classes, collections, dates and binary data', () => {
+    const user = createUser()
+    const clone = Transformer.clone(user)
+    assert.ok(clone instanceof User)
+    assert.notEqual(clone.addresses[0], user.addresses[0])
+    assert.ok(clone.addresses[0] instanceof Address)
+    assert.notEqual(clone.tags, user.tags)
+    assert.deepEqual([...clone.tags], ['admin'])
+    assert.equal(clone.scores.get('math'), 5)
+    assert.notEqual(clone.birthday, user.birthday)
+    assert.equal(clone.birthday?.getTime(), user.birthday?.getTime())
+    assert.notEqual(clone.avatar.buffer, user.avatar.buffer)
+    assert.deepEqual([...clone.avatar], [1, 2, 3])
+  })
+
+  it('keeps shared and circular references in clones', () => {
+    const user = createUser()
+    user.parent = user
+    const clone = Transformer.clone(user)
+    assert.equal(clone.parent, clone)
+  })
+
+  it('compares instances structurally', () => {
+    const user = createUser()
+    assert.ok(Transformer.equals(user, createUser()))
+    assert.ok(Transformer.equals(user, Transformer.clone(user)))
+    const other = createUser()
+    other.tags.add('user')
+    assert.ok(!Transformer.equals(user, other))
+    other.tags.delete('user')
+    other.birthday = new Date(0)
+    assert.ok(!Transformer.equals(user, other))
+    assert.ok(!Transformer.equals(user, Object.assign(new Address(), { city: 'Paris' })))
+  })
+
+  it('compares Map and Set with object keys and elements by structure', () => {
+    const a = new Map([[{ id: 1 }, new Set([new Date(0)])]])
+    const b = new Map([[{ id: 1 }, new Set([new Date(0)])]])
+    assert.ok(Transformer.equals(a, b))
+    assert.ok(!Transformer.equals(a, new Map([[{ id: 2 }, new Set([new Date(0)])]])))
+  })
+
+  it('matches every element of Set and key of Map only once', () => {
+    assert.ok(!Transformer.equals(new Set([{ a: 1 }, { a: 1 }]), new Set([{ a: 1 }, { a: 2 }])))
+    assert.ok(Transformer.equals(new Set([{ a: 1 }, { a: 2 }, 3]), new Set([3, { a: 2 }, { a: 1 }])))
+    assert.ok(!Transformer.equals(new Map([[{ id: 1 }, 'x'], [{ id: 1 }, 'x']]), new Map([[{ id: 1 }, 'x'], [{ id: 2 }, 'x']])))
+    assert.ok(Transformer.equals(new Map([[{ id: 1 }, 'x'], [{ id: 2 }, 'y']]), new Map([[{ id: 2 }, 'y'], [{ id: 1 }, 'x']])))
+  })
+
+  it('compares circular structures', () => {
+    const a = createUser()
+    const b = createUser()
+    a.parent = a
+    b.parent = b
+    assert.ok(Transformer.equals(a, b))
+  })
+
+  it('returns JSON Patch with paths of json', () => {
+    const user = createUser()
+    Transformer.naming = 'snake_case'
+    try {
+      const other = Transformer.clone(user)
+      other.firstName = 'John'
+      other.addresses.push(Object.assign(new Address(), { city: 'Lyon' }))
+      other.scores.delete('math')
+      assert.deepEqual(Transformer.diff(user, other), [
+        { op: 'replace', path: '/first_name', value: 'John' },
+        { op: 'remove', path: '/scores/math' },
+        { op: 'add', path: '/addresses/1', value: { city: 'Lyon', street: '' } }
+      ])
+    } finally {
+      Transformer.naming = undefined
+    }
+  })
+
+  it('applies patch returned by diff', () => {
+    const user = createUser()
+    const other = Transformer.clone(user)
+    other.age = 31
+    other.addresses = []
+    other.tags.add('user')
+    const addresses = user.addresses
+    const updated = Transformer.applyPatch(user, Transformer.diff(user, other))
+    assert.equal(updated, user)
+    assert.ok(Transformer.equals(user, other))
+    assert.notEqual(user.addresses, addresses)
+  })
+
+  it('supports all operations of RFC 6902', () => {
+    const user = createUser()
+    const patch: PatchOperation[] = [
+      { op: 'test', path: '/firstName', value: 'Jane' },
+      { op: 'copy', from: '/addresses/0', path: '/addresses/-' },
+      { op: 'replace', path: '/addresses/1/city', value: 'Lyon' },
+      { op: 'move', from: '/addresses/0', path: '/addresses/1' },
+      { op: 'add', path: '/tags/0', value: 'user' }
+    ]
+    Transformer.applyPatch(user, patch)
+    assert.deepEqual(user.addresses.map(address => address.city), ['Lyon', 'Paris'])
+    assert.ok(user.addresses.every(address => address instanceof Address))
+    assert.deepEqual([...user.tags], ['user', 'admin'])
+  })
+
+  it('checks types of patched values', () => {
+    const user = createUser()
+    assert.throws(() => Transformer.applyPatch(user, [{ op: 'replace', path: '/age', value: 'old' }]), (e: TransformError) => {
+      return e.code === 'TYPE_MISMATCH' && e.path === '/age'
+    })
+    assert.equal(user.age, 30)
+  })
+
+  it('adds __proto__ as property instead of replacing prototype of json', () => {
+    const user = createUser()
+    const patch: PatchOperation[] = [{ op: 'remove', path: '/age' }, { op: 'add', path: '/__proto__', value: { age: 99 } }]
+    assert.throws(() => Transformer.applyPatch(user, patch), (e: TransformError) => e.code === 'MISSING_PROPERTY' && e.path === '/age')
+    assert.equal(user.age, 30)
+  })
+
+  it('rejects invalid operations', () => {
+    const user = createUser()
+    const cases: PatchOperation[] = [
+      { op: 'test', path: '/age', value: 31 },
+      { op: 'remove', path: '/missing' },
+      { op: 'replace', path: '/addresses/5/city', value: 'Lyon' },
+      { op: 'add', path: 'age', value: 1 }
+    ]
+    cases.forEach(operation => {
+      assert.throws(() => Transformer.applyPatch(user, [operation]), (e: TransformError) => e.code === 'INVALID_PATCH')
+    })
+    assert.equal(user.age, 30)
+  })
+
+  it('replaces instances, which can not be updated', () => {
+    const user = Object.freeze(createUser())
+    const updated = Transformer.applyPatch(user, [{ op: 'replace', path: '/age', value: 31 }])
+    assert.notEqual(updated, user)
+    assert.equal(updated.age, 31)
+  })
+})
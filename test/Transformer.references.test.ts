@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Customer {
+  // getter, because Order is declared below
+  static get types(): Schema<Customer> {
+    return { orders: { of: Order } }
+  }
+
+
+  name = ''
+  orders: Order[] = []
+}
+
+class Order {
+  static types: Schema<Order> = { customer: { type: Customer } }
+  id = 0
+  customer: Customer | null = null
+}
+
+function graph() {
+  const customer = new Customer()
+  customer.name = 'John'
+  const first = new Order()
+  const second = new Order()
+  first.id = 1
+  second.id = 2
+  first.customer = customer
+  second.customer = customer
+  customer.orders.push(first, second)
+  return first
+}
+
+describe('Circular references', () => {
+  it('should throw TransformError with path by default', () => {
+    try {
+      Transformer.toJSON(graph())
+      assert.fail('should throw')
+    } catch (error) {
+      assert.equal(error instanceof TransformError, true)
+      assert.equal((error as TransformError).code, 'CIRCULAR_REFERENCE')
+      assert.equal((error as TransformError).target, 'Order')
+      assert.equal((error as TransformError).path, '/customer/orders/0')
+    }
+  })
+
+  it('should drop repeated references', () => {
+    const plain = Transformer.toJSON(graph(), { cycles: 'drop' })
+    assert.deepEqual(plain, {
+      id: 1,
+      customer: { name: 'John', orders: [{ id: 2 }] }
+    })
+  })
+
+  it('should serialize shared objects which are not cyclic', () => {
+    class Tag { name = 'a' }
+    const tag = new Tag()
+    const plain = Transformer.toJSON({ first: tag, second: tag })
+    assert.deepEqual(plain, { first: { name: 'a' }, second: { name: 'a' } })
+  })
+
+  it('should write $id/$ref markers and resolve them back into shared objects', () => {
+    const plain = Transformer.toJSON(graph(), { cycles: 'reference' })
+    assert.deepEqual(plain, {
+      id: 1,
+      customer: {
+        name: 'John',
+        orders: [
+          { $ref: '1' },
+          { id: 2, customer: { $ref: '2' } },
+        ],
+        $id: '2'
+      },
+      $id: '1'
+    })
+
+    const order = Transformer.fromJSON(plain, Order, { references: true })
+    const customer = order.customer!
+    assert.equal(customer instanceof Customer, true)
+    assert.equal(customer.orders[0], order)
+    assert.equal(customer.orders[1].customer, customer)
+  })
+
+  it('should throw when reference is unresolved', () => {
+    try {
+      Transformer.fromJSON({ id: 1, customer: { $ref: '5' } }, Order, { references: true })
+      assert.fail('should throw')
+    } catch (error) {
+      assert.equal((error as TransformError).code, 'UNRESOLVED_REFERENCE')
+      assert.equal((error as TransformError).path, '/customer')
+    }
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import { Transformer, TransformError } from '../src';
+import * as assert from 'node:assert/strict';
+
+class User {
+  name = ''
+  age = 0
+  born = new Date()
+}
+
+const users = [
+  { name: 'John, "Jr" [1]', age: 42, born: '2000-01-01T00:00:00.000Z' },
+  { name: 'Jäne {}', age: 21, born: '2001-01-01T00:00:00.000Z' },
+  { name: '\\\\', age: 1, born: '2002-01-01T00:00:00.000Z' },
+]
+
+/** Splits text into chunks of given size */
+async function* chunked(text: string, size: number) {
+  for (let index = 0; index < text.length; index += size) yield text.slice(index, index + size)
+}
+
+async function collect<T>(iterable: AsyncIterable<T>) {
+  const result: T[] = []
+  for await (const item of iterable) result.push(item)
+  return result
+}
+
+describe('Streaming', () => {
+  it('should transform NDJSON records', async () => {
+    const text = `${users.map(user => JSON.stringify(user)).join('\n')}\n\n`
+    for (const size of [1, 7, 1000]) {
+      const result = await collect(Transformer.fromJSONStream(chunked(text, size), User))
+      assert.equal(result.every(user => user instanceof User), true)
+      assert.deepEqual(result.map(user => Transformer.toJSON(user)), users)
+    }
+  })
+
+  it('should transform elements of top-level json array', async () => {
+    const text = ` \n${JSON.stringify(users, null, 2)}`
+    for (const size of [1, 5, 1000]) {
+      const result = await collect(Transformer.fromJSONStream(chunked(text, size), User))
+      assert.deepEqual(result.map(user => Transformer.toJSON(user)), users)
+    }
+    assert.deepEqual(await collect(Transformer.fromJSONStream(chunked('[]', 1), User, { format: 'array' })), [])
+  })
+
+  it('should read web ReadableStream of bytes', async () => {
+    const bytes = new TextEncoder().encode(JSON.stringify(users))
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // splits multibyte characters between chunks
+        for (let index = 0; index < bytes.length; index += 3) controller.enqueue(bytes.slice(index, index + 3))
+        controller.close()
+      }
+    })
+    const result = await collect(Transformer.fromJSONStream(stream, User))
+    assert.equal(result[1].name, 'Jäne {}')
+  })
+
+  it('should report errors with record index', async () => {
+    const text = `${JSON.stringify(users[0])}\n${JSON.stringify({ ...users[1], age: '21' })}`
+    await assert.rejects(collect(Transformer.fromJSONStream(chunked(text, 4), User)), (error: TransformError) => {
+      assert.equal(error.code, 'TYPE_MISMATCH')
+      assert.equal(error.path, '/1/age')
+      return true
+    })
+
+    await assert.rejects(collect(Transformer.fromJSONStream(chunked('[{}, {"a": }]', 4), User, false)), (error: TransformError) => {
+      assert.equal(error instanceof TransformError, true)
+      assert.equal(error.code, 'INVALID_JSON')
+      assert.equal(error.path, '/1')
+      return true
+    })
+  })
+
+  it('should write instances as NDJSON or json array', async () => {
+    const instances = users.map(user => Transformer.fromJSON(user, User))
+    const ndjson = (await collect(Transformer.toJSONStream(instances))).join('')
+    assert.deepEqual(ndjson.trim().split('\n').map(line => JSON.parse(line)), users)
+
+    async function* generate() {
+      yield* instances
+    }
+    const array = (await collect(Transformer.toJSONStream(generate(), { format: 'array' }))).join('')
+    assert.deepEqual(JSON.parse(array), users)
+    assert.equal((await collect(Transformer.toJSONStream([], { format: 'array' }))).join(''), '[]')
+  })
+})
@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, Union } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Organization {
+  static types: Schema<Organization> = { phone: { type: String } }
+  name = ''
+  phone: string | null = null
+}
+
+class Circle {
+  radius = 0
+}
+
+class Square {
+  side = 0
+}
+
+const shape: Union<Circle | Square> = { discriminator: 'kind', mapping: { circle: Circle, square: Square } }
+
+class Employee {
+  static types: Schema<Employee> = {
+    experience: { of: Organization },
+    tags: { of: String },
+    visits: { of: Date },
+    shapes: { of: shape },
+    note: { strict: false },
+    manager: { type: Employee }
+  }
+
+  age = 0
+  student = false
+  note = ''
+  born = new Date()
+  experience: Organization[] = []
+  tags = new Set<string>()
+  visits = new Map<string, Date>()
+  shapes: Array<Circle | Square> = []
+  manager: Employee | null = null
+}
+
+describe('Transformer.toJSONSchema', () => {
+  it('should describe class and nested classes in $defs', () => {
+    const schema = Transformer.toJSONSchema(Employee)
+    assert.equal(schema.$schema, 'https://json-schema.org/draft/2020-12/schema')
+    assert.equal(schema.$ref, '#/$defs/Employee')
+    assert.deepEqual(schema.$defs?.Organization, {
+      type: 'object',
+      properties: { name: { type: 'string' }, phone: { type: ['string', 'null'] } },
+      required: ['name', 'phone']
+    })
+    assert.deepEqual(schema.$defs?.Employee, {
+      type: 'object',
+      properties: {
+        age: { type: 'number' },
+        student: { type: 'boolean' },
+        note: { type: 'string' },
+        born: { type: 'string', format: 'date-time' },
+        experience: { type: 'array', items: { $ref: '#/$defs/Organization' } },
+        tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+        visits: { type: 'object', additionalProperties: { type: 'string', format: 'date-time' } },
+        shapes: {
+          type: 'array',
+          items: {
+            oneOf: [
+              { $ref: '#/$defs/Circle', properties: { kind: { const: 'circle' } }, required: ['kind'] },
+              { $ref: '#/$defs/Square', properties: { kind: { const: 'square' } }, required: ['kind'] },
+            ]
+          }
+        },
+        manager: { anyOf: [{ $ref: '#/$defs/Employee' }, { type: 'null' }] }
+      },
+      required: ['age', 'student', 'born', 'experience', 'tags', 'visits', 'shapes', 'manager']
+    })
+  })
+
+  it('should follow strict mode and naming', () => {
+    Transformer.naming = 'snake_case'
+    try {
+      const schema = Transformer.toJSONSchema(Organization, false)
+      assert.deepEqual(schema.$defs?.Organization.required, [])
+      class Person { firstName = '' }
+      assert.deepEqual(Object.keys(Transformer.toJSONSchema(Person).$defs?.Person.properties || {}), ['first_name'])
+    } finally {
+      Transformer.naming = undefined
+    }
+  })
+
+  it('should give unique names to different classes with the same name', () => {
+    const First = class Item { a = '' }
+    const Second = class Item { b = '' }
+    class Pair {
+      first = new First()
+      second = new Second()
+    }
+    const { $defs } = Transformer.toJSONSchema(Pair)
+    assert.deepEqual(Object.keys($defs || {}), ['Pair', 'Item', 'Item2'])
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import { Schema, Transformer, TransformAggregateError, TransformError, Union } from '../src';
+import * as assert from 'node:assert/strict';
+
+class Event {
+  kind = ''
+  time = 0
+}
+
+class ClickEvent extends Event {
+  x = 0
+  y = 0
+}
+
+class ScrollEvent extends Event {
+  offset = 0
+}
+
+class KeyEvent {
+  key = ''
+}
+
+const event: Union<Event | KeyEvent> = {
+  discriminator: 'kind',
+  mapping: { click: ClickEvent, scroll: ScrollEvent, key: KeyEvent }
+}
+
+class Session {
+  static types: Schema<Session> = {
+    last: { type: event },
+    events: { of: event },
+    unique: { of: event },
+    byId: { of: event }
+  }
+
+  last: Event | KeyEvent | null = null
+  events: Array<Event | KeyEvent> = []
+  unique = new Set<Event | KeyEvent>()
+  byId = new Map<string, Event | KeyEvent>()
+}
+
+const json = {
+  last: { kind: 'key', key: 'Enter' },
+  events: [
+    { kind: 'click', time: 1, x: 1, y: 2 },
+    { kind: 'scroll', time: 2, offset: 10 },
+  ],
+  unique: [{ kind: 'key', key: 'Escape' }],
+  byId: { a: { kind: 'scroll', time: 3, offset: 0 } }
+}
+
+describe('Discriminated unions', () => {
+  it('should select class by discriminator for properties and collection elements', () => {
+    const session = Transformer.fromJSON(json, Session)
+    assert.equal(session.last instanceof KeyEvent, true)
+    assert.equal(session.events[0] instanceof ClickEvent, true)
+    assert.equal(session.events[1] instanceof ScrollEvent, true)
+    assert.equal([...session.unique][0] instanceof KeyEvent, true)
+    assert.equal(session.byId.get('a') instanceof ScrollEvent, true)
+  })
+
+  it('should write discriminator in toJSON, even if class does not declare it', () => {
+    const session = Transformer.fromJSON(json, Session)
+    assert.deepEqual(Transformer.toJSON(session), json)
+  })
+
+  it('should throw when discriminator value is unknown and mode is strict', () => {
+    try {
+      Transformer.fromJSON({ ...json, events: [{ kind: 'drag' }] }, Session)
+      assert.fail('should throw')
+    } catch (error) {
+      const { cause } = error as TransformError
+      assert.equal((cause as TransformError).code, 'UNKNOWN_DISCRIMINATOR')
+      assert.equal((cause as TransformError).path, '/events/0/kind')
+    }
+
+    try {
+      Transformer.fromJSON({ ...json, last: {} }, Session)
+      assert.fail('should throw')
+    } catch (error) {
+      assert.equal((error as TransformError).code, 'UNKNOWN_DISCRIMINATOR')
+      assert.equal((error as TransformError).received, 'undefined')
+    }
+  })
+
+  it('should skip elements with unknown discriminator value when mode is not strict', () => {
+    const session = Transformer.fromJSON({ ...json, last: { kind: 'drag' }, events: [{ kind: 'drag' }, { kind: 'scroll', time: 1, offset: 5 }] }, Session, false)
+    assert.equal(session.last, null)
+    assert.equal(session.events.length, 1)
+    assert.ok(session.events[0] instanceof ScrollEvent)
+  })
+
+  it('should skip elements with unknown discriminator value in collect mode', () => {
+    try {
+      Transformer.fromJSON({ ...json, events: [{ kind: 'drag' }, { kind: 'click', time: 1, x: 'a', y: 0 }] }, Session, { collect: true })
+      assert.fail('should throw')
+    } catch (error) {
+      assert.ok(error instanceof TransformAggregateError)
+      assert.deepEqual(error.issues.map(({ code, path }) => ({ code, path })), [
+        { code: 'UNKNOWN_DISCRIMINATOR', path: '/events/0/kind' },
+        { code: 'TYPE_MISMATCH', path: '/events/1/x' }
+      ])
+    }
+  })
+})